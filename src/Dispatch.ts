@@ -13,6 +13,9 @@ import Log from './util/Log';
 import { TOOLFORGE } from './DispatchConstants';
 import { MediaWikiRevisionController } from './routes/v1/revisions/MediaWikiRevisionController';
 import ErrorResponseBuilder from './util/ErrorResponseBuilder';
+import AsyncTaskController from './routes/abstract/AsyncTaskController';
+import UserSessionManager from './auth/UserSessionManager';
+import AuthenticationError from './auth/AuthenticationError';
 
 /**
  * Main class for Dispatch.
@@ -75,7 +78,11 @@ export default class Dispatch {
 				const origin = req.header( 'Origin' );
 				if ( origin && await WikimediaSiteMatrix.i.getOrigin( origin ) ) {
 					res.header( 'Access-Control-Allow-Origin', '*' );
-					res.header( 'Access-Control-Allow-Headers', 'Api-User-Agent, Content-Type' );
+					res.header(
+						'Access-Control-Allow-Headers',
+						'Api-User-Agent, Authorization, Content-Type, If-None-Match'
+					);
+					res.header( 'Access-Control-Expose-Headers', 'ETag' );
 					res.header( 'Vary', 'Origin' );
 				}
 			} catch ( e ) {
@@ -153,6 +160,14 @@ export default class Dispatch {
 				return res.status( 422 ).json( errorBuilder.build( errorFormat ) );
 			}
 
+			if ( err instanceof AuthenticationError ) {
+				if ( err.status === 401 ) {
+					res.header( 'WWW-Authenticate', 'Bearer' );
+				}
+				return res.status( err.status )
+					.json( err.response.build( req.query.errorformat as ErrorFormat ) );
+			}
+
 			if ( err instanceof Error ) {
 				console.error( err );
 				// Avoid relying on ErrorResponseBuilder
@@ -174,6 +189,9 @@ export default class Dispatch {
 
 		this.verifyEnvironment();
 		await DatabaseConnection.verifyEnvironment();
+		await AsyncTaskController.initializeStore();
+		await UserSessionManager.i.initialize();
+		await MediaWikiRevisionController.initializeStores();
 		await this.setupExpress();
 
 		const port = +( process.env.DISPATCH_PORT || process.env.PORT || 8080 );
@@ -195,6 +213,15 @@ export default class Dispatch {
 		MediaWikiRevisionController.revisionStore.stopStream();
 		MediaWikiRevisionController.privilegedRevisionStore.stopStream();
 
+		Log.info( 'Saving revisions...' );
+		MediaWikiRevisionController.revisionStore.save().catch( ( e ) => {
+			Log.warn( 'Failed to save revisions.', { error: e } );
+		} );
+
+		Log.info( 'Stopping task purges...' );
+		AsyncTaskController.store.stopPurging();
+		UserSessionManager.i.store.stopPurging();
+
 		Log.info( `Stopped at ${ new Date().toUTCString() }.` );
 	}
 
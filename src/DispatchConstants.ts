@@ -7,6 +7,11 @@ export const ROOT_PATH = path.resolve( __dirname, '..' );
  */
 export const LOG_PATH = path.resolve( ROOT_PATH, '.logs' );
 
+/**
+ * The path to the cache folder.
+ */
+export const CACHE_PATH = path.resolve( ROOT_PATH, '.cache' );
+
 /**
  * Whether we're running on Toolforge.
  */
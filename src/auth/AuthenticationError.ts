@@ -0,0 +1,36 @@
+import ErrorResponseBuilder from '../util/ErrorResponseBuilder';
+
+/**
+ * Thrown when a request to a route which requires authentication could not be
+ * authenticated. This is turned into an error response by the error handler.
+ */
+export default class AuthenticationError extends Error {
+
+	static readonly errorNotLoggedIn = new ErrorResponseBuilder()
+		.add( 'notloggedin', {
+			text: 'You must be logged in to use this route',
+			key: 'apierror-dispatch-notloggedin'
+		} );
+	static readonly errorBadSession = new ErrorResponseBuilder()
+		.add( 'badsession', {
+			text: 'The session is invalid or has expired. Please log in again.',
+			key: 'apierror-dispatch-badsession'
+		} );
+	static readonly errorMissingGrants = new ErrorResponseBuilder()
+		.add( 'missinggrants', {
+			text: 'Dispatch was not granted the permissions required for this route',
+			key: 'apierror-dispatch-missinggrants'
+		} );
+
+	/**
+	 * @param response The error response to send
+	 * @param status The HTTP status code to respond with
+	 */
+	constructor(
+		readonly response: ErrorResponseBuilder,
+		readonly status: number = 401
+	) {
+		super( 'Authentication failed' );
+	}
+
+}
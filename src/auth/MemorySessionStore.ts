@@ -0,0 +1,51 @@
+import SessionStore, { SessionRecord } from './SessionStore';
+
+/**
+ * Keeps sessions in memory. Users are logged out when the process exits.
+ * This is the default session store.
+ */
+export default class MemorySessionStore extends SessionStore {
+
+	/**
+	 * Session records, mapped by the hash of their session token.
+	 *
+	 * @private
+	 */
+	private readonly sessions = new Map<string, SessionRecord>();
+
+	/**
+	 * @inheritDoc
+	 */
+	async get( id: string ): Promise<SessionRecord | null> {
+		return this.sessions.get( id ) ?? null;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async save( record: SessionRecord ): Promise<void> {
+		this.sessions.set( record.id, record );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async delete( id: string ): Promise<void> {
+		this.sessions.delete( id );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async purge( now: number ): Promise<number> {
+		let count = 0;
+		for ( const [ id, record ] of this.sessions.entries() ) {
+			if ( now - record.expireTime > 0 ) {
+				this.sessions.delete( id );
+				count++;
+			}
+		}
+		return count;
+	}
+
+}
@@ -0,0 +1,210 @@
+import { ExpandedRevision, isValidRevision, Revision } from '../models/Revision';
+import { SiteMatrixSite } from '../util/WikimediaSiteMatrix';
+import WikimediaSessionManager from '../processors/WikimediaSessionManager';
+import UserSessionManager, { UserSession } from './UserSessionManager';
+
+/**
+ * What parts of deleted revisions a requester can see.
+ */
+export interface RevisionAccessRights {
+	/**
+	 * Can see deleted summaries and usernames (`deletedhistory`).
+	 */
+	deletedHistory: boolean;
+	/**
+	 * Can see deleted revision text (`deletedtext`).
+	 */
+	deletedText: boolean;
+	/**
+	 * Can see suppressed data (`viewsuppressed` or `suppressrevision`).
+	 */
+	suppressed: boolean;
+}
+
+/**
+ * Flags set by MediaWiki on revisions which had some of their data hidden.
+ */
+type HiddenFlag = 'commenthidden' | 'userhidden' | 'texthidden';
+
+/**
+ * Flags which hide fields of a revision. Revision text is never part of a revision.
+ */
+type FieldHidingFlag = Exclude<HiddenFlag, 'texthidden'>;
+
+/**
+ * Decides what revision data each requester can see, based on their rights on the
+ * wiki. Anonymous requesters can only see public data. Logged-in requesters can see
+ * deleted or suppressed data, as far as their rights (and the grants they gave
+ * Dispatch) allow.
+ *
+ * Revisions fetched for a requester may be cached and served to other requesters, so
+ * revisions must always go through {@link strip} before being returned.
+ */
+export default class RevisionAccess {
+
+	/**
+	 * The access rights of anonymous requesters.
+	 */
+	static readonly PUBLIC: RevisionAccessRights = Object.freeze( {
+		deletedHistory: false,
+		deletedText: false,
+		suppressed: false
+	} );
+
+	/**
+	 * How long (in milliseconds) to remember a user's rights on a wiki.
+	 */
+	static readonly CACHE_TIME = 300e3;
+
+	/**
+	 * Revision fields which are hidden when the given flag is set.
+	 */
+	static readonly HIDDEN_FIELDS: Record<FieldHidingFlag, ( keyof ExpandedRevision )[]> = {
+		commenthidden: [ 'comment', 'parsedcomment' ],
+		userhidden: [ 'user', 'userid' ]
+	};
+
+	/**
+	 * Access rights of logged-in users, mapped by session token hash and wiki DB name.
+	 *
+	 * @private
+	 */
+	private static readonly cache =
+		new Map<string, { rights: RevisionAccessRights, expireTime: number }>();
+
+	/**
+	 * Get the access rights which correspond to a set of user rights.
+	 *
+	 * @param rights The user's rights on the wiki
+	 * @return The access rights
+	 */
+	static fromRights( rights: string[] ): RevisionAccessRights {
+		return {
+			deletedHistory: rights.includes( 'deletedhistory' ),
+			deletedText: rights.includes( 'deletedtext' ),
+			suppressed: rights.includes( 'viewsuppressed' ) ||
+				rights.includes( 'suppressrevision' )
+		};
+	}
+
+	/**
+	 * Check if a requester can see any non-public data. Revisions for such
+	 * requesters are kept in the privileged revision store.
+	 *
+	 * @param access The requester's access rights
+	 * @return `true` if the requester can see some deleted data
+	 */
+	static isPrivileged( access: RevisionAccessRights ): boolean {
+		return access.deletedHistory || access.deletedText || access.suppressed;
+	}
+
+	/**
+	 * Get the access rights of a requester on a wiki.
+	 *
+	 * @param site The wiki being accessed
+	 * @param session The requester's session, if they are logged in
+	 * @return The requester's access rights
+	 */
+	static async get(
+		site: SiteMatrixSite,
+		session?: UserSession | null
+	): Promise<RevisionAccessRights> {
+		if ( !session ) {
+			return RevisionAccess.PUBLIC;
+		}
+
+		const now = Date.now();
+		for ( const [ key, entry ] of RevisionAccess.cache.entries() ) {
+			if ( entry.expireTime < now ) {
+				RevisionAccess.cache.delete( key );
+			}
+		}
+
+		const key = `${ UserSessionManager.hash( session.id ) }:${ site.dbname }`;
+		if ( RevisionAccess.cache.has( key ) ) {
+			return RevisionAccess.cache.get( key ).rights;
+		}
+
+		// Rights reported through OAuth are already limited by the user's grants.
+		const client = await WikimediaSessionManager.getUserClient( site, session );
+		const response = await client.query( {
+			meta: 'userinfo',
+			uiprop: 'rights'
+		} );
+		const rights = RevisionAccess.fromRights( response.query.userinfo.rights ?? [] );
+		RevisionAccess.cache.set( key, {
+			rights,
+			expireTime: now + RevisionAccess.CACHE_TIME
+		} );
+		return rights;
+	}
+
+	/**
+	 * Check if a requester can see a part of a revision which was hidden.
+	 *
+	 * @param revision The revision
+	 * @param flag The flag of the hidden part
+	 * @param access The requester's access rights
+	 * @return `true` if the requester can see that part
+	 */
+	static canView(
+		revision: ExpandedRevision,
+		flag: HiddenFlag,
+		access: RevisionAccessRights
+	): boolean {
+		if ( !revision[ flag ] ) {
+			return true;
+		}
+		if ( revision.suppressed ) {
+			return access.suppressed;
+		}
+		return flag === 'texthidden' ? access.deletedText : access.deletedHistory;
+	}
+
+	/**
+	 * Remove all data from a revision which a requester cannot see.
+	 *
+	 * @param revision The revision
+	 * @param access The requester's access rights
+	 * @return A copy of the revision with hidden data removed
+	 */
+	static strip( revision: Revision, access: RevisionAccessRights ): Revision {
+		if ( !isValidRevision( revision ) ) {
+			return revision;
+		}
+		const stripped: ExpandedRevision = Object.assign( {}, revision );
+		const flags = Object.keys( RevisionAccess.HIDDEN_FIELDS ) as FieldHidingFlag[];
+		for ( const flag of flags ) {
+			if ( !RevisionAccess.canView( revision, flag, access ) ) {
+				for ( const field of RevisionAccess.HIDDEN_FIELDS[ flag ] ) {
+					delete stripped[ field ];
+				}
+			}
+		}
+		return stripped;
+	}
+
+	/**
+	 * Check if a cached revision has all the data that a requester can see. This is
+	 * not the case if the revision was fetched for a requester with fewer rights.
+	 *
+	 * @param revision The revision
+	 * @param access The requester's access rights
+	 * @return `true` if the revision can be used for the requester
+	 */
+	static isComplete( revision: Revision, access: RevisionAccessRights ): boolean {
+		if ( !isValidRevision( revision ) ) {
+			return true;
+		}
+		// Revision text is never cached, so only summaries and usernames can be missing.
+		const flags = Object.keys( RevisionAccess.HIDDEN_FIELDS ) as FieldHidingFlag[];
+		return flags.every( ( flag ) =>
+			!revision[ flag ] ||
+			!RevisionAccess.canView( revision, flag, access ) ||
+			RevisionAccess.HIDDEN_FIELDS[ flag ].some(
+				( field ) => revision[ field ] !== undefined
+			)
+		);
+	}
+
+}
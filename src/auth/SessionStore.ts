@@ -0,0 +1,91 @@
+import Log from '../util/Log';
+import backgroundInterval from '../util/func/backgroundInterval';
+
+/**
+ * An encrypted user session, as kept by a {@link SessionStore}.
+ */
+export interface SessionRecord {
+	/**
+	 * The hash of the session token. The token itself is never stored.
+	 */
+	id: string;
+	/**
+	 * The encrypted session data.
+	 */
+	data: string;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) when this session expires.
+	 */
+	expireTime: number;
+}
+
+/**
+ * Stores user sessions. Stores only ever see encrypted session data; encryption and
+ * decryption is handled by the {@link UserSessionManager}.
+ */
+export default abstract class SessionStore {
+
+	// Purge expired sessions every hour.
+	static readonly PURGE_INTERVAL = 3600e3;
+
+	private purgeInterval: NodeJS.Timeout;
+
+	/**
+	 * Prepare the store for use. Called once, before the store is used.
+	 */
+	async init(): Promise<void> {
+		/* ignored */
+	}
+
+	/**
+	 * Get a session from the store.
+	 *
+	 * @param id The hash of the session token
+	 * @return The session record, or `null` if the session could not be found.
+	 */
+	abstract get( id: string ): Promise<SessionRecord | null>;
+
+	/**
+	 * Save a session into the store. Replaces any existing record for the same session.
+	 *
+	 * @param record The session record to save
+	 */
+	abstract save( record: SessionRecord ): Promise<void>;
+
+	/**
+	 * Remove a session from the store.
+	 *
+	 * @param id The hash of the session token
+	 */
+	abstract delete( id: string ): Promise<void>;
+
+	/**
+	 * Remove all sessions which have expired by the given time.
+	 *
+	 * @param now The current time, as a UNIX timestamp in milliseconds.
+	 * @return The number of removed sessions
+	 */
+	abstract purge( now: number ): Promise<number>;
+
+	/**
+	 * Start purging expired sessions in the background.
+	 */
+	startPurging() {
+		if ( this.purgeInterval ) {
+			return;
+		}
+		this.purgeInterval = backgroundInterval( async () => {
+			const count = await this.purge( Date.now() );
+			Log.debug( `Purged ${count} expired sessions.` );
+		}, SessionStore.PURGE_INTERVAL, 'Failed to purge expired sessions.' );
+	}
+
+	/**
+	 * Stop purging expired sessions in the background.
+	 */
+	stopPurging() {
+		clearInterval( this.purgeInterval );
+		this.purgeInterval = null;
+	}
+
+}
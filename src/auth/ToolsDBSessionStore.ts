@@ -0,0 +1,86 @@
+import { Knex } from 'knex';
+import SessionStore, { SessionRecord } from './SessionStore';
+import ToolsDBConnection from '../database/ToolsDBConnection';
+import Log from '../util/Log';
+
+/**
+ * Keeps sessions in the tool's ToolsDB (MariaDB) database. Users stay logged in
+ * across restarts and deployments.
+ */
+export default class ToolsDBSessionStore extends SessionStore {
+
+	static readonly TABLE = 'dispatch_session';
+
+	/**
+	 * @return The ToolsDB connection
+	 * @private
+	 */
+	private get conn(): Promise<Knex> {
+		return ToolsDBConnection.connect();
+	}
+
+	/**
+	 * Creates the session table, if it doesn't exist yet.
+	 */
+	async init(): Promise<void> {
+		const conn = await this.conn;
+		if ( !( await conn.schema.hasTable( ToolsDBSessionStore.TABLE ) ) ) {
+			Log.info( `Creating ToolsDB table "${ToolsDBSessionStore.TABLE}"...` );
+			await conn.schema.createTable( ToolsDBSessionStore.TABLE, ( table ) => {
+				table.string( 'id', 64 ).primary();
+				table.text( 'data' ).notNullable();
+				table.bigInteger( 'expiry' ).notNullable().index();
+			} );
+		}
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async get( id: string ): Promise<SessionRecord | null> {
+		const row = await ( await this.conn )( ToolsDBSessionStore.TABLE )
+			.where( { id } )
+			.first();
+		if ( !row ) {
+			return null;
+		}
+		return {
+			id: row.id,
+			data: row.data,
+			expireTime: +row.expiry
+		};
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async save( record: SessionRecord ): Promise<void> {
+		await ( await this.conn )( ToolsDBSessionStore.TABLE )
+			.insert( {
+				id: record.id,
+				data: record.data,
+				expiry: record.expireTime
+			} )
+			.onConflict( 'id' )
+			.merge();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async delete( id: string ): Promise<void> {
+		await ( await this.conn )( ToolsDBSessionStore.TABLE )
+			.where( { id } )
+			.delete();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async purge( now: number ): Promise<number> {
+		return ( await this.conn )( ToolsDBSessionStore.TABLE )
+			.where( 'expiry', '<', now )
+			.delete();
+	}
+
+}
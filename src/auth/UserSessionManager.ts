@@ -0,0 +1,284 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import SessionStore from './SessionStore';
+import MemorySessionStore from './MemorySessionStore';
+import ToolsDBSessionStore from './ToolsDBSessionStore';
+import WikimediaOAuth, { OAuthProfile, OAuthTokens } from './WikimediaOAuth';
+import Log from '../util/Log';
+
+/**
+ * A logged-in user's session.
+ */
+export interface UserSession extends OAuthTokens, OAuthProfile {
+	/**
+	 * The session token. This is sent by the client as a cookie or bearer token.
+	 */
+	id: string;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) when the session expires.
+	 * This is independent of when the access token expires.
+	 */
+	sessionExpireTime: number;
+}
+
+/**
+ * Creates, loads, and refreshes user sessions.
+ *
+ * Session data (which includes the user's OAuth tokens) is encrypted with AES-256-GCM
+ * before being handed to the session store, using a key derived from the
+ * `DISPATCH_SESSION_SECRET` environment variable. Session tokens are only stored as
+ * hashes, so the contents of the store alone cannot be used to log in.
+ */
+export default class UserSessionManager {
+
+	/**
+	 * Singleton instance for this class.
+	 */
+	public static readonly i = new UserSessionManager( process.env.DISPATCH_SESSION_SECRET );
+
+	/**
+	 * The name of the cookie which holds the session token.
+	 */
+	static readonly COOKIE_NAME = 'dispatch_session';
+	/**
+	 * How long (in milliseconds) a session lasts. Can be set in seconds with the
+	 * `DISPATCH_SESSION_EXPIRE_TIME` environment variable. Defaults to 30 days.
+	 */
+	static readonly SESSION_EXPIRE_TIME =
+		+( process.env.DISPATCH_SESSION_EXPIRE_TIME ?? 2592000 ) * 1e3 || 2592000e3;
+	/**
+	 * How long (in milliseconds) before expiry an access token is refreshed.
+	 */
+	static readonly REFRESH_MARGIN = 60e3;
+
+	/**
+	 * The store which holds encrypted sessions. Use {@link initialize} to set up
+	 * the configured store.
+	 */
+	store: SessionStore = new MemorySessionStore();
+
+	private readonly key: Buffer | null;
+	/**
+	 * Token refreshes in progress, mapped by session token hash. Concurrent requests
+	 * on the same session share a single refresh.
+	 *
+	 * @private
+	 */
+	private readonly refreshing = new Map<string, Promise<UserSession | null>>();
+
+	/**
+	 * @param secret The secret to derive the session encryption key from
+	 */
+	constructor( secret?: string ) {
+		this.key = secret ? crypto.createHash( 'sha256' ).update( secret ).digest() : null;
+	}
+
+	/**
+	 * @return `true` if users can log in. This requires both a session secret and
+	 *   a configured OAuth client.
+	 */
+	get enabled(): boolean {
+		return this.key != null && WikimediaOAuth.i.enabled;
+	}
+
+	/**
+	 * Hash a session token for use as a store key.
+	 *
+	 * @param token The session token
+	 * @return The hex-encoded SHA-256 hash of the token
+	 */
+	static hash( token: string ): string {
+		return crypto.createHash( 'sha256' ).update( token ).digest( 'hex' );
+	}
+
+	/**
+	 * Sets up the session store and starts purging expired sessions in the background.
+	 * The session store is chosen with the `DISPATCH_SESSION_STORE` environment variable:
+	 * - `memory` (default) – sessions are kept in memory and lost on restart
+	 * - `toolsdb` – sessions are kept in the tool's ToolsDB database
+	 */
+	async initialize(): Promise<void> {
+		if ( !this.enabled ) {
+			Log.info( 'OAuth login is not configured. User sessions are disabled.' );
+			return;
+		}
+		switch ( process.env.DISPATCH_SESSION_STORE ?? 'memory' ) {
+			case 'memory':
+				this.store = new MemorySessionStore();
+				break;
+			case 'toolsdb':
+				this.store = new ToolsDBSessionStore();
+				break;
+			default:
+				throw new Error(
+					`Unknown session store: ${ process.env.DISPATCH_SESSION_STORE }`
+				);
+		}
+		Log.info( `Using ${ this.store.constructor.name } for sessions.` );
+		await this.store.init();
+		this.store.startPurging();
+	}
+
+	/**
+	 * Start a new session for a user who just logged in.
+	 *
+	 * @param tokens The tokens issued for the user
+	 * @param profile The user's profile
+	 * @return The new session
+	 */
+	async create( tokens: OAuthTokens, profile: OAuthProfile ): Promise<UserSession> {
+		const session: UserSession = {
+			id: crypto.randomBytes( 32 ).toString( 'base64url' ),
+			...tokens,
+			...profile,
+			sessionExpireTime: Date.now() + UserSessionManager.SESSION_EXPIRE_TIME
+		};
+		await this.save( session );
+		Log.debug( `Started session for ${ profile.username }.` );
+		return session;
+	}
+
+	/**
+	 * Load a session. If its access token is about to expire, it is refreshed first.
+	 *
+	 * @param token The session token
+	 * @return The session, or `null` if the session does not exist, has expired,
+	 *   or can no longer be refreshed.
+	 */
+	async get( token: string ): Promise<UserSession | null> {
+		if ( !this.enabled ) {
+			return null;
+		}
+		const id = UserSessionManager.hash( token );
+		const record = await this.store.get( id );
+		if ( !record || record.expireTime < Date.now() ) {
+			return null;
+		}
+
+		const data = this.decrypt( record.data, id );
+		if ( !data ) {
+			// Encrypted with a different secret, or tampered with.
+			await this.store.delete( id );
+			return null;
+		}
+		const session: UserSession = { id: token, ...data };
+		if ( session.expireTime - Date.now() > UserSessionManager.REFRESH_MARGIN ) {
+			return session;
+		}
+
+		if ( !this.refreshing.has( id ) ) {
+			this.refreshing.set( id, this.refresh( session )
+				.finally( () => this.refreshing.delete( id ) ) );
+		}
+		return this.refreshing.get( id );
+	}
+
+	/**
+	 * End a session.
+	 *
+	 * @param token The session token
+	 */
+	async destroy( token: string ): Promise<void> {
+		await this.store.delete( UserSessionManager.hash( token ) );
+	}
+
+	/**
+	 * Get a new access token for a session.
+	 *
+	 * @param session The session to refresh
+	 * @return The refreshed session, or `null` if the session was ended because
+	 *   the authorization server refused to refresh it.
+	 * @private
+	 */
+	private async refresh( session: UserSession ): Promise<UserSession | null> {
+		if ( !session.refreshToken ) {
+			await this.destroy( session.id );
+			return null;
+		}
+
+		let tokens: OAuthTokens;
+		try {
+			tokens = await WikimediaOAuth.i.refresh( session.refreshToken );
+		} catch ( e ) {
+			const status = axios.isAxiosError( e ) ? e.response?.status : null;
+			if ( status >= 400 && status < 500 ) {
+				// The refresh token was revoked or has expired.
+				Log.debug( `Could not refresh session for ${ session.username }.` );
+				await this.destroy( session.id );
+				return null;
+			}
+			throw e;
+		}
+
+		const refreshed: UserSession = {
+			...session,
+			accessToken: tokens.accessToken,
+			refreshToken: tokens.refreshToken ?? session.refreshToken,
+			expireTime: tokens.expireTime
+		};
+		await this.save( refreshed );
+		return refreshed;
+	}
+
+	/**
+	 * Encrypt and save a session.
+	 *
+	 * @param session The session to save
+	 * @private
+	 */
+	private async save( session: UserSession ): Promise<void> {
+		const { id: token, ...data } = session;
+		const id = UserSessionManager.hash( token );
+		await this.store.save( {
+			id,
+			data: this.encrypt( data, id ),
+			expireTime: session.sessionExpireTime
+		} );
+	}
+
+	/**
+	 * Encrypt session data. The store key is used as additional authenticated data,
+	 * so that encrypted data cannot be moved to another session.
+	 *
+	 * @param data The session data
+	 * @param id The store key of the session
+	 * @return The IV, authentication tag, and ciphertext, encoded in base64
+	 * @private
+	 */
+	private encrypt( data: Omit<UserSession, 'id'>, id: string ): string {
+		const iv = crypto.randomBytes( 12 );
+		const cipher = crypto.createCipheriv( 'aes-256-gcm', this.key, iv );
+		cipher.setAAD( Buffer.from( id ) );
+		const ciphertext = Buffer.concat( [
+			cipher.update( JSON.stringify( data ), 'utf8' ),
+			cipher.final()
+		] );
+		return Buffer.concat( [ iv, cipher.getAuthTag(), ciphertext ] ).toString( 'base64' );
+	}
+
+	/**
+	 * Decrypt session data.
+	 *
+	 * @param encrypted The encrypted session data
+	 * @param id The store key of the session
+	 * @return The session data, or `null` if it could not be decrypted
+	 * @private
+	 */
+	private decrypt( encrypted: string, id: string ): Omit<UserSession, 'id'> | null {
+		try {
+			const buffer = Buffer.from( encrypted, 'base64' );
+			const decipher = crypto.createDecipheriv(
+				'aes-256-gcm', this.key, buffer.subarray( 0, 12 )
+			);
+			decipher.setAAD( Buffer.from( id ) );
+			decipher.setAuthTag( buffer.subarray( 12, 28 ) );
+			return JSON.parse( Buffer.concat( [
+				decipher.update( buffer.subarray( 28 ) ),
+				decipher.final()
+			] ).toString( 'utf8' ) );
+		} catch ( e ) {
+			return null;
+		}
+	}
+
+}
@@ -0,0 +1,174 @@
+import axios from 'axios';
+import toolUserAgent from '../util/func/toolUserAgent';
+
+/**
+ * Tokens issued by the Wikimedia OAuth 2 server.
+ */
+export interface OAuthTokens {
+	accessToken: string;
+	/**
+	 * The token used to get a new access token once the current one expires.
+	 */
+	refreshToken?: string;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) when the access token expires.
+	 */
+	expireTime: number;
+}
+
+/**
+ * The Wikimedia account which authorized Dispatch.
+ */
+export interface OAuthProfile {
+	username: string;
+	/**
+	 * The grants that the user gave Dispatch.
+	 */
+	grants: string[];
+}
+
+/**
+ * Client for the Wikimedia OAuth 2 authorization server. This implements the
+ * authorization code flow (with PKCE) for a confidential client.
+ *
+ * The client is configured with the following environment variables:
+ * - `DISPATCH_OAUTH_CLIENT_ID` – the client application key
+ * - `DISPATCH_OAUTH_CLIENT_SECRET` – the client application secret
+ * - `DISPATCH_OAUTH_REDIRECT_URI` – the callback URL registered for the consumer
+ * - `DISPATCH_OAUTH_ENDPOINT` – the OAuth 2 REST endpoint (defaults to Meta-Wiki's)
+ *
+ * @see https://www.mediawiki.org/wiki/OAuth/For_Developers#OAuth_2
+ */
+export default class WikimediaOAuth {
+
+	/**
+	 * Singleton instance for this class.
+	 */
+	public static readonly i = new WikimediaOAuth(
+		process.env.DISPATCH_OAUTH_CLIENT_ID,
+		process.env.DISPATCH_OAUTH_CLIENT_SECRET,
+		process.env.DISPATCH_OAUTH_REDIRECT_URI,
+		process.env.DISPATCH_OAUTH_ENDPOINT ?? 'https://meta.wikimedia.org/w/rest.php/oauth2'
+	);
+
+	/**
+	 * How long to wait for the authorization server to respond.
+	 */
+	static readonly REQUEST_TIMEOUT = 10e3;
+
+	/**
+	 * @param clientId The client application key
+	 * @param clientSecret The client application secret
+	 * @param redirectUri The callback URL registered for the consumer
+	 * @param endpoint The base URL of the OAuth 2 REST endpoint
+	 */
+	constructor(
+		readonly clientId: string,
+		private readonly clientSecret: string,
+		readonly redirectUri: string,
+		readonly endpoint: string
+	) {
+		/* ignored */
+	}
+
+	/**
+	 * @return `true` if the OAuth client has been configured.
+	 */
+	get enabled(): boolean {
+		return !!( this.clientId && this.clientSecret && this.redirectUri );
+	}
+
+	/**
+	 * Get the URL which users must be sent to in order to authorize Dispatch.
+	 *
+	 * @param state An unguessable value which is passed back to the callback
+	 * @param codeChallenge The S256 PKCE code challenge
+	 * @return The authorization URL
+	 */
+	getAuthorizationUrl( state: string, codeChallenge: string ): string {
+		const url = new URL( `${ this.endpoint }/authorize` );
+		url.searchParams.set( 'response_type', 'code' );
+		url.searchParams.set( 'client_id', this.clientId );
+		url.searchParams.set( 'redirect_uri', this.redirectUri );
+		url.searchParams.set( 'state', state );
+		url.searchParams.set( 'code_challenge', codeChallenge );
+		url.searchParams.set( 'code_challenge_method', 'S256' );
+		return url.href;
+	}
+
+	/**
+	 * Exchange an authorization code for tokens.
+	 *
+	 * @param code The authorization code passed to the callback
+	 * @param codeVerifier The PKCE code verifier used for the authorization request
+	 * @return The issued tokens
+	 */
+	async exchangeCode( code: string, codeVerifier: string ): Promise<OAuthTokens> {
+		const params = new URLSearchParams();
+		params.set( 'grant_type', 'authorization_code' );
+		params.set( 'code', code );
+		params.set( 'redirect_uri', this.redirectUri );
+		params.set( 'code_verifier', codeVerifier );
+		return this.requestTokens( params );
+	}
+
+	/**
+	 * Get a new access token using a refresh token.
+	 *
+	 * @param refreshToken The refresh token
+	 * @return The issued tokens
+	 */
+	async refresh( refreshToken: string ): Promise<OAuthTokens> {
+		const params = new URLSearchParams();
+		params.set( 'grant_type', 'refresh_token' );
+		params.set( 'refresh_token', refreshToken );
+		return this.requestTokens( params );
+	}
+
+	/**
+	 * Get the profile of the user who owns an access token.
+	 *
+	 * @param accessToken The access token
+	 * @return The user's profile
+	 */
+	async getProfile( accessToken: string ): Promise<OAuthProfile> {
+		const response = await axios.get( `${ this.endpoint }/resource/profile`, {
+			headers: {
+				Authorization: `Bearer ${ accessToken }`,
+				'User-Agent': toolUserAgent
+			},
+			timeout: WikimediaOAuth.REQUEST_TIMEOUT
+		} );
+		return {
+			username: response.data.username,
+			grants: response.data.grants ?? []
+		};
+	}
+
+	/**
+	 * Make a request to the token endpoint.
+	 *
+	 * @param params The grant-specific request parameters
+	 * @return The issued tokens
+	 * @private
+	 */
+	private async requestTokens( params: URLSearchParams ): Promise<OAuthTokens> {
+		params.set( 'client_id', this.clientId );
+		params.set( 'client_secret', this.clientSecret );
+
+		const requestTime = Date.now();
+		const response = await axios.post( `${ this.endpoint }/access_token`, params.toString(), {
+			headers: {
+				'Content-Type': 'application/x-www-form-urlencoded',
+				'User-Agent': toolUserAgent
+			},
+			timeout: WikimediaOAuth.REQUEST_TIMEOUT
+		} );
+		return {
+			accessToken: response.data.access_token,
+			refreshToken: response.data.refresh_token,
+			expireTime: requestTime + response.data.expires_in * 1e3
+		};
+	}
+
+}
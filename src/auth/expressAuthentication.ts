@@ -0,0 +1,78 @@
+import express from 'express';
+import UserSessionManager, { UserSession } from './UserSessionManager';
+import AuthenticationError from './AuthenticationError';
+import getCookie from '../util/func/getCookie';
+
+/**
+ * A request which was authenticated with the `oauth` security scheme.
+ */
+export type AuthenticatedRequest = express.Request & { user: UserSession };
+
+/**
+ * Get the session token sent with a request. The token is taken from the
+ * `Authorization: Bearer` header, or from the session cookie if no such header
+ * was sent.
+ *
+ * @param request The request
+ * @return The session token, or `null` if none was sent
+ */
+export function getSessionToken( request: express.Request ): string | null {
+	const authorization = request.header( 'Authorization' );
+	return authorization?.startsWith( 'Bearer ' ) ?
+		authorization.slice( 'Bearer '.length ).trim() :
+		getCookie( request, UserSessionManager.COOKIE_NAME );
+}
+
+/**
+ * Authenticates requests to routes declared with `@Security`. This is used by
+ * the routes generated by tsoa.
+ *
+ * The only supported security scheme is `oauth`, which requires a user session.
+ * The scopes of the scheme are OAuth grants that the user must have given Dispatch
+ * (e.g. `@Security( 'oauth', [ 'viewdeleted' ] )`).
+ *
+ * @param request The request to authenticate
+ * @param securityName The name of the security scheme
+ * @param scopes The grants required for the route
+ * @return The user's session
+ */
+export async function expressAuthentication(
+	request: express.Request,
+	securityName: string,
+	scopes: string[] = []
+): Promise<UserSession> {
+	if ( securityName !== 'oauth' ) {
+		throw new Error( `Unknown security scheme: ${ securityName }` );
+	}
+
+	const token = getSessionToken( request );
+	if ( !token ) {
+		throw new AuthenticationError( AuthenticationError.errorNotLoggedIn );
+	}
+
+	const session = await UserSessionManager.i.get( token );
+	if ( !session ) {
+		throw new AuthenticationError( AuthenticationError.errorBadSession );
+	}
+	if ( !scopes.every( ( grant ) => session.grants.includes( grant ) ) ) {
+		throw new AuthenticationError( AuthenticationError.errorMissingGrants, 403 );
+	}
+	return session;
+}
+
+/**
+ * Authenticates a request to a route which works both with and without a login.
+ * Requests without a session token are treated as anonymous, but requests with
+ * an invalid session token are still rejected.
+ *
+ * @param request The request to authenticate
+ * @return The user's session, or `null` if the request is anonymous
+ */
+export async function optionalAuthentication(
+	request: express.Request
+): Promise<UserSession | null> {
+	if ( !getSessionToken( request ) ) {
+		return null;
+	}
+	return expressAuthentication( request, 'oauth' );
+}
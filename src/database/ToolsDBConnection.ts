@@ -0,0 +1,68 @@
+import DatabaseConnection from './DatabaseConnection';
+import { Knex } from 'knex';
+import { TOOLFORGE } from '../DispatchConstants';
+
+/**
+ * Toolforge ToolsDB database connection handler. ToolsDB holds data which
+ * belongs to Dispatch itself, such as persisted task data.
+ */
+export default class ToolsDBConnection extends DatabaseConnection {
+
+	static readonly TOOLSDB_HOST = 'tools.db.svc.wikimedia.cloud';
+
+	private static connection: Promise<Knex>;
+
+	/**
+	 * Opens a connection to the tool's ToolsDB database. Only one connection (pool)
+	 * is ever opened; subsequent calls return the same connection.
+	 *
+	 * The database name is taken from `DISPATCH_TOOLSDB_DATABASE`. If not set, this
+	 * defaults to the `{user}__dispatch` database, where `{user}` is the username of
+	 * the tool's database credentials.
+	 */
+	static async connect(): Promise<Knex> {
+		if ( !this.connection ) {
+			this.connection = this.openToolsDB();
+			// Allow retries if the connection failed to open.
+			this.connection.catch( () => {
+				this.connection = null;
+			} );
+		}
+		return this.connection;
+	}
+
+	/**
+	 * Opens a new connection to the tool's ToolsDB database.
+	 *
+	 * @private
+	 */
+	private static async openToolsDB(): Promise<Knex> {
+		let host: string;
+		let port: number;
+
+		if ( TOOLFORGE ) {
+			host = ToolsDBConnection.TOOLSDB_HOST;
+			port = 3306;
+		} else {
+			if ( process.env.NODE_ENV === 'development' ) {
+				host = 'localhost';
+				port = 3306;
+			}
+			if ( process.env.DISPATCH_TOOLSDB_HOST ) {
+				host = process.env.DISPATCH_TOOLSDB_HOST;
+			}
+			if ( process.env.DISPATCH_TOOLSDB_PORT ) {
+				port = +process.env.DISPATCH_TOOLSDB_PORT;
+			}
+		}
+
+		if ( !host || !port ) {
+			throw new Error( 'Bad ToolsDB configuration: host or port missing' );
+		}
+
+		const database = process.env.DISPATCH_TOOLSDB_DATABASE ??
+			`${ ( await this.getCredentials() ).user }__dispatch`;
+		return super.open( host, port, database );
+	}
+
+}
@@ -155,7 +155,7 @@ export default function attachRevisionQueryBuilderExtensions() {
 
 		for ( const tag of tags ) {
 			const joinKey = `ct_has_tag_${
-				tag.replace( /^[a-z0-9_]/gi, '_' )
+				tag.replace( /[^a-z0-9_]/gi, '_' ).slice( 0, 64 )
 			}_${ Math.floor( Math.random() * 1e8 ) }`;
 			const joinColumn = ( s ) => `${joinKey}.${s}`;
 			this.leftJoin(
@@ -185,7 +185,7 @@ export default function attachRevisionQueryBuilderExtensions() {
 
 		for ( const tag of tags ) {
 			const joinKey = `ct_has_no_tag_${
-				tag.replace( /^[a-z0-9_]/gi, '_' )
+				tag.replace( /[^a-z0-9_]/gi, '_' ).slice( 0, 64 )
 			}_${ Math.floor( Math.random() * 1e8 ) }`;
 			const joinColumn = ( s ) => `${joinKey}.${s}`;
 			this.leftJoin(
@@ -0,0 +1,53 @@
+import type { Knex } from 'knex';
+import throwIfAborted from '../../util/func/throwIfAborted';
+import Log from '../../util/Log';
+
+/**
+ * A Knex client which can cancel running queries. Knex implements this for MySQL,
+ * but its typings declare `cancelQuery` without the connection to cancel on.
+ */
+interface QueryCancellingClient {
+	cancelQuery( connection: unknown ): Promise<void>;
+}
+
+/**
+ * Runs a query that can be stopped with an AbortSignal. The query is pinned to
+ * a single pooled connection, so that a `KILL QUERY` can be issued against that
+ * connection once the signal aborts. This stops the work on the database server
+ * instead of just discarding the result.
+ *
+ * @param query The query to run
+ * @param signal The signal which cancels the query. If not provided, the query
+ *   is run as-is.
+ * @return The result of the query
+ */
+export default async function dbAbortable<T = any>(
+	query: Knex.QueryBuilder,
+	signal?: AbortSignal
+): Promise<T> {
+	if ( !signal ) {
+		return query;
+	}
+	throwIfAborted( signal );
+
+	const client = query.client;
+	const connection = await client.acquireConnection();
+	const onAbort = () => {
+		( client as unknown as QueryCancellingClient ).cancelQuery( connection )
+			.catch( ( e: Error ) => {
+				Log.warn( 'Failed to kill aborted query.', { error: e } );
+			} );
+	};
+	signal.addEventListener( 'abort', onAbort, { once: true } );
+
+	try {
+		return await query.connection( connection );
+	} catch ( e ) {
+		// Report aborted queries as aborted, not as interrupted queries.
+		throwIfAborted( signal );
+		throw e;
+	} finally {
+		signal.removeEventListener( 'abort', onAbort );
+		await client.releaseConnection( connection );
+	}
+}
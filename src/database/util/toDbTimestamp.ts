@@ -0,0 +1,9 @@
+/**
+ * Converts a native Date to the MediaWiki DB timestamp format (`YYYYMMDDHHMMSS`).
+ *
+ * @param date The date
+ * @return The timestamp
+ */
+export default function toDbTimestamp( date: Date ): string {
+	return date.toISOString().replace( /[^\d]/g, '' ).slice( 0, 14 );
+}
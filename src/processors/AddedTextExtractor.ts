@@ -0,0 +1,105 @@
+import { mwn } from 'mwn';
+import diffAddedText from '../util/func/diffAddedText';
+import stripWikitext from '../util/func/stripWikitext';
+import Log from '../util/Log';
+
+/**
+ * The text added by a revision, compared with its parent revision.
+ */
+export interface AddedText {
+	/**
+	 * The wikitext added by the revision.
+	 */
+	addedtext: string;
+	/**
+	 * The plain text added by the revision, without wiki markup. Suitable for
+	 * comparing with other sources, such as when checking for copyright violations.
+	 */
+	addedplaintext: string;
+}
+
+/**
+ * Extracts the text that revisions added. The wikitext of each revision and its parent
+ * is fetched from the MediaWiki API, then diffed by paragraph.
+ */
+export default class AddedTextExtractor {
+
+	/**
+	 * The number of revisions to fetch the content of in each request. This is kept low,
+	 * since responses with too much content are cut off by the API.
+	 */
+	static readonly PER_BATCH = 10;
+
+	/**
+	 * @param client The client to use for requests.
+	 */
+	constructor( private client: mwn ) {
+		/* ignored */
+	}
+
+	/**
+	 * Get the text added by revisions.
+	 *
+	 * @param revisions The revisions, with their parent revision IDs
+	 * @return The added text of each revision, mapped by revision ID. Revisions whose
+	 *   text (or whose parent's text) could not be fetched are left out.
+	 */
+	async extract(
+		revisions: { revid: number, parentid?: number }[]
+	): Promise<Record<number, AddedText>> {
+		const contents = await this.getContents( Array.from( new Set(
+			revisions.flatMap( ( revision ) => revision.parentid ?
+				[ revision.revid, revision.parentid ] :
+				[ revision.revid ] )
+		) ) );
+
+		const addedTexts: Record<number, AddedText> = {};
+		for ( const { revid, parentid } of revisions ) {
+			const text = contents[ revid ];
+			const parentText = parentid ? contents[ parentid ] : '';
+			if ( text == null || parentText == null ) {
+				continue;
+			}
+			addedTexts[ revid ] = {
+				addedtext: diffAddedText( parentText, text ),
+				addedplaintext: diffAddedText( stripWikitext( parentText ), stripWikitext( text ) )
+			};
+		}
+		Log.debug( `Extracted added text of ${
+			Object.keys( addedTexts ).length
+		} of ${ revisions.length } revisions.` );
+		return addedTexts;
+	}
+
+	/**
+	 * Get the wikitext of revisions.
+	 *
+	 * @param revids The revision IDs
+	 * @return The wikitext of each revision, mapped by revision ID. Revisions with
+	 *   hidden or missing text are left out.
+	 * @private
+	 */
+	private async getContents( revids: number[] ): Promise<Record<number, string>> {
+		const contents: Record<number, string> = {};
+		for await ( const response of this.client.massQueryGen( {
+			action: 'query',
+			format: 'json',
+			formatversion: '2',
+			prop: 'revisions',
+			rvprop: 'ids|content',
+			rvslots: 'main',
+			revids
+		}, 'revids', AddedTextExtractor.PER_BATCH ) ) {
+			for ( const page of ( response.query?.pages ?? [] ) ) {
+				for ( const revision of ( page.revisions ?? [] ) ) {
+					const content = revision.slots?.main?.content;
+					if ( typeof content === 'string' ) {
+						contents[ revision.revid ] = content;
+					}
+				}
+			}
+		}
+		return contents;
+	}
+
+}
@@ -1,13 +1,18 @@
 import { SiteMatrixSite } from '../util/WikimediaSiteMatrix';
 import ReplicaConnection from '../database/ReplicaConnection';
 import { Knex } from 'knex';
-import { PossibleDeletedRevision } from '../models/DeletedRevision';
+import {
+	ChangeDeletionBitmaskConstants,
+	PossibleDeletedRevision
+} from '../models/DeletedRevision';
 import dbTimestamp from '../database/util/dbTimestamp';
 import dbString from '../database/util/dbString';
 import TitleFactory from '../util/Title';
 import { MwnTitleStatic } from 'mwn/build/title';
 import { ExpandedRevision } from '../models/Revision';
 import WikimediaSessionManager from './WikimediaSessionManager';
+import dbAbortable from '../database/util/dbAbortable';
+import throwIfAborted from '../util/func/throwIfAborted';
 
 /**
  * Fetches revisions from the Replica database.
@@ -44,14 +49,16 @@ export default class DatabaseRevisionFetcher {
 	 * @param conn
 	 * @param Title
 	 * @param processor Query builder and connection extender
+	 * @param signal A signal which cancels the query when aborted
 	 */
 	static async fetch(
 		conn: Knex,
 		Title: MwnTitleStatic,
 		processor: ( qb: Knex.QueryBuilder, conn: Knex ) => Knex.QueryBuilder
-		= ( qb ) => qb
+		= ( qb ) => qb,
+		signal?: AbortSignal
 	): Promise<Omit<ExpandedRevision, 'parsedcomment'>[]> {
-		return processor(
+		return dbAbortable( processor(
 			conn( { main: 'revision_userindex' } )
 				.select(
 					'main.rev_id',
@@ -60,7 +67,8 @@ export default class DatabaseRevisionFetcher {
 					'main.rev_timestamp',
 					'main.rev_len',
 					'main.rev_comment_id',
-					'main.rev_actor'
+					'main.rev_actor',
+					'main.rev_deleted'
 				)
 				.select( conn.raw( `
 					(
@@ -75,7 +83,7 @@ export default class DatabaseRevisionFetcher {
 				.withRevisionComment( [ 'comment_text' ], 'main' )
 				.withRevisionPage( [ 'page_id', 'page_title', 'page_namespace' ], 'main' ),
 			conn
-		)
+		), signal )
 			.then( d => d.map( v => ( <PossibleDeletedRevision>{
 				revid: +v.rev_id,
 				parentid: +v.rev_parent_id,
@@ -97,21 +105,29 @@ export default class DatabaseRevisionFetcher {
 				diffsize: v.rev_len - v.parent_rev_len,
 
 				...( v.rev_comment_id == null ? { commenthidden: true } : {} ),
-				...( v.rev_actor == null ? { userhidden: true } : {} )
+				...( v.rev_actor == null ? { userhidden: true } : {} ),
+				// eslint-disable-next-line no-bitwise
+				...( v.rev_deleted & ChangeDeletionBitmaskConstants.DELETED_TEXT ?
+					{ texthidden: true } : {} ),
+				// eslint-disable-next-line no-bitwise
+				...( v.rev_deleted & ChangeDeletionBitmaskConstants.DELETED_RESTRICTED ?
+					{ suppressed: true } : {} )
 			} ) ) );
 	}
 
 	/**
 	 * @param processor Query builder and connection extender
+	 * @param signal A signal which cancels the query when aborted
 	 * @see DatabaseRevisionFetcher.fetch
 	 */
 	async fetch(
 		processor: ( qb: Knex.QueryBuilder, conn: Knex ) => Knex.QueryBuilder
-		= ( qb ) => qb
+		= ( qb ) => qb,
+		signal?: AbortSignal
 	): Promise<Omit<ExpandedRevision, 'parsedcomment'>[]> {
 		const conn = await ReplicaConnection.connect( this.site, this.type );
 		const Title = await TitleFactory.get( this.site );
-		return DatabaseRevisionFetcher.fetch( conn, Title, processor );
+		return DatabaseRevisionFetcher.fetch( conn, Title, processor, signal );
 	}
 
 	/**
@@ -122,15 +138,17 @@ export default class DatabaseRevisionFetcher {
 	 *
 	 * @param site
 	 * @param revisions
+	 * @param signal A signal which stops further requests when aborted
 	 */
 	static async upgradeRevisionsWithParsedEditSummaries(
 		site: SiteMatrixSite,
-		revisions: ExpandedRevision[]
+		revisions: ExpandedRevision[],
+		signal?: AbortSignal
 	): Promise<void> {
 		const revisionMap = new Map( revisions.map( r => [ r.revid, r ] ) );
 		const revisionIds = Array.from( revisionMap.keys() );
 
-		const parsedSummaries = await this.getParsedEditSummaries( site, revisionIds );
+		const parsedSummaries = await this.getParsedEditSummaries( site, revisionIds, signal );
 		for ( const [ revid, parsedSummary ] of Object.entries( parsedSummaries ) ) {
 			revisionMap.get( +revid ).parsedcomment = parsedSummary;
 		}
@@ -141,10 +159,12 @@ export default class DatabaseRevisionFetcher {
 	 *
 	 * @param site
 	 * @param revids
+	 * @param signal A signal which stops further requests when aborted
 	 */
 	static async getParsedEditSummaries(
 		site: SiteMatrixSite,
-		revids: number[]
+		revids: number[],
+		signal?: AbortSignal
 	): Promise<Record<number, string>> {
 		const parsedSummaries: Record<number, string> = {};
 
@@ -157,6 +177,7 @@ export default class DatabaseRevisionFetcher {
 			formatversion: '2',
 			rvprop: 'parsedcomment|ids'
 		}, 'revids' ) ) {
+			throwIfAborted( signal );
 			for ( const page of response.query.pages ) {
 				for ( const revision of page.revisions ) {
 					parsedSummaries[ revision.revid ] = revision.parsedcomment;
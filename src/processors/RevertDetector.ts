@@ -0,0 +1,308 @@
+import { Knex } from 'knex';
+import dbString from '../database/util/dbString';
+import dbAbortable from '../database/util/dbAbortable';
+import toDbTimestamp from '../database/util/toDbTimestamp';
+import Log from '../util/Log';
+import { ExpandedRevision } from '../models/Revision';
+
+/**
+ * How a revision reverted earlier revisions.
+ * - `rollback` – with rollback (tagged `mw-rollback`)
+ * - `undo` – with undo (tagged `mw-undo`)
+ * - `manual` – by manually restoring an earlier version (tagged `mw-manual-revert`)
+ * - `identity` – by restoring an earlier version, without being tagged as a revert
+ */
+export type RevertType = 'rollback' | 'undo' | 'manual' | 'identity';
+
+/**
+ * Information on whether a revision was reverted, or was itself a revert.
+ */
+export interface RevertInformation {
+	/**
+	 * Whether the revision was reverted by a later revision.
+	 */
+	reverted: boolean;
+	/**
+	 * The ID of the revision which reverted this revision, if known.
+	 */
+	revertedBy?: number;
+	/**
+	 * Whether the revision reverted earlier revisions.
+	 */
+	isRevert: boolean;
+	/**
+	 * How the revision reverted earlier revisions. Only set if `isRevert` is `true`.
+	 */
+	revertType?: RevertType;
+}
+
+/**
+ * A revision to detect reverts of. Satisfied by both revisions from the API and
+ * revisions from {@link DatabaseRevisionFetcher}.
+ */
+type RevertTarget = Pick<ExpandedRevision, 'revid' | 'parentid' | 'timestamp' | 'tags' | 'page'>;
+
+/**
+ * A revision in the page history around a target revision.
+ */
+interface HistoryRow {
+	revid: number;
+	/**
+	 * The timestamp of the revision, in the MediaWiki DB format.
+	 */
+	timestamp: string;
+	/**
+	 * The content hash of the revision. `null` if the text of the revision is hidden.
+	 */
+	sha1: string | null;
+}
+
+/**
+ * Detects reverts with the Wiki Replicas. Revisions are checked against the revisions
+ * around them in the page history: a revision which restores the content of an earlier
+ * revision is a revert, and a revision whose changes were undone by a later revision
+ * (restoring the content of its parent) was reverted. Revert tags (`mw-rollback`,
+ * `mw-undo`, `mw-manual-revert`, and `mw-reverted`) are used where available.
+ *
+ * Revisions with hidden text have no content hash on the replicas, so these can only be
+ * detected through their tags.
+ */
+export default class RevertDetector {
+
+	/**
+	 * The number of revisions before and after a revision to compare it with. This
+	 * matches the default maximum revert depth of MediaWiki (`$wgRevertedTagMaxDepth`).
+	 */
+	static readonly WINDOW = 15;
+	/**
+	 * The number of revisions to look up the history of in a single query.
+	 */
+	static readonly PER_BATCH = 25;
+	/**
+	 * Tags added to reverts, mapped to the revert type they stand for. Earlier tags
+	 * take precedence.
+	 */
+	static readonly REVERT_TAGS: Record<string, RevertType> = {
+		'mw-rollback': 'rollback',
+		'mw-undo': 'undo',
+		'mw-manual-revert': 'manual'
+	};
+
+	/**
+	 * Detect reverts of revisions.
+	 *
+	 * @param conn The replica connection of the wiki of the revisions
+	 * @param revisions The revisions to check
+	 * @param signal A signal which cancels the queries when aborted
+	 * @return Revert information for each revision, mapped by revision ID
+	 */
+	static async detect(
+		conn: Knex,
+		revisions: RevertTarget[],
+		signal?: AbortSignal
+	): Promise<Record<number, RevertInformation>> {
+		const revertedBy = await RevertDetector.getRevertedTags(
+			conn, revisions.map( ( revision ) => revision.revid ), signal
+		);
+
+		const information: Record<number, RevertInformation> = {};
+		for ( let i = 0; i < revisions.length; i += RevertDetector.PER_BATCH ) {
+			const batch = revisions.slice( i, i + RevertDetector.PER_BATCH );
+			const histories = await RevertDetector.getHistories( conn, batch, signal );
+			for ( const revision of batch ) {
+				information[ revision.revid ] = RevertDetector.compare(
+					revision, histories.get( revision.revid ) ?? [], revertedBy
+				);
+			}
+		}
+		Log.debug( `Detected reverts of ${ revisions.length } revisions.` );
+		return information;
+	}
+
+	/**
+	 * Add revert information to revisions. Performs an in-place upgrade of the revisions.
+	 *
+	 * @param conn The replica connection of the wiki of the revisions
+	 * @param revisions The revisions to upgrade
+	 * @param signal A signal which cancels the queries when aborted
+	 */
+	static async upgradeRevisions(
+		conn: Knex,
+		revisions: RevertTarget[],
+		signal?: AbortSignal
+	): Promise<void> {
+		const information = await RevertDetector.detect( conn, revisions, signal );
+		for ( const revision of revisions ) {
+			Object.assign( revision, information[ revision.revid ] );
+		}
+	}
+
+	/**
+	 * Compare a revision with the revisions around it.
+	 *
+	 * @param revision The revision
+	 * @param history The page history around the revision, oldest first
+	 * @param revertedBy The revisions which reverted each revision tagged `mw-reverted`
+	 * @return Revert information for the revision
+	 * @private
+	 */
+	private static compare(
+		revision: RevertTarget,
+		history: HistoryRow[],
+		revertedBy: Map<number, number | null>
+	): RevertInformation {
+		const index = history.findIndex( ( row ) => row.revid === revision.revid );
+		const sha1 = history[ index ]?.sha1 ?? null;
+		const parentIndex = revision.parentid ?
+			history.findIndex( ( row ) => row.revid === revision.parentid ) : -1;
+		const parentSha1 = history[ parentIndex ]?.sha1 ?? null;
+
+		const information: RevertInformation = { reverted: false, isRevert: false };
+
+		const revertTag = Object.keys( RevertDetector.REVERT_TAGS )
+			.find( ( tag ) => revision.tags?.includes( tag ) );
+		if ( revertTag ) {
+			information.isRevert = true;
+			information.revertType = RevertDetector.REVERT_TAGS[ revertTag ];
+		} else if ( sha1 != null && parentIndex > 0 && sha1 !== parentSha1 && history
+			.slice( 0, parentIndex )
+			.some( ( row ) => row.sha1 === sha1 )
+		) {
+			information.isRevert = true;
+			information.revertType = 'identity';
+		}
+
+		if ( revertedBy.has( revision.revid ) ) {
+			information.reverted = true;
+			if ( revertedBy.get( revision.revid ) != null ) {
+				information.revertedBy = revertedBy.get( revision.revid );
+			}
+		} else if ( index !== -1 && parentSha1 != null && sha1 !== parentSha1 ) {
+			// Restoring the content from before the revision undoes it.
+			const revert = history
+				.slice( index + 1 )
+				.find( ( row ) => row.sha1 === parentSha1 );
+			if ( revert ) {
+				information.reverted = true;
+				information.revertedBy = revert.revid;
+			}
+		}
+		return information;
+	}
+
+	/**
+	 * Get the revisions which reverted revisions tagged with `mw-reverted`.
+	 *
+	 * @param conn The replica connection
+	 * @param revids The IDs of the revisions to check
+	 * @param signal A signal which cancels the query when aborted
+	 * @return The ID of the reverting revision of each tagged revision (or `null`
+	 *   if unknown), mapped by revision ID
+	 * @private
+	 */
+	private static async getRevertedTags(
+		conn: Knex,
+		revids: number[],
+		signal?: AbortSignal
+	): Promise<Map<number, number | null>> {
+		const revertedBy = new Map<number, number | null>();
+		if ( revids.length === 0 ) {
+			return revertedBy;
+		}
+
+		const rows = await dbAbortable( conn( 'change_tag' )
+			.select( 'ct_rev_id', 'ct_params' )
+			.join( 'change_tag_def', 'ctd_id', 'ct_tag_id' )
+			.where( 'ctd_name', 'mw-reverted' )
+			.whereIn( 'ct_rev_id', revids ), signal );
+		for ( const row of rows ) {
+			let revertId: number | null = null;
+			try {
+				revertId = JSON.parse( dbString( row.ct_params, 'null' ) )?.revertId ?? null;
+			} catch ( e ) {
+				// Tags without valid parameters still mark a reverted revision.
+			}
+			revertedBy.set( +row.ct_rev_id, revertId != null ? +revertId : null );
+		}
+		return revertedBy;
+	}
+
+	/**
+	 * Get the page history around revisions. Up to {@link WINDOW} revisions before and
+	 * after each revision are fetched.
+	 *
+	 * @param conn The replica connection
+	 * @param revisions The revisions to get the history around
+	 * @param signal A signal which cancels the query when aborted
+	 * @return The page history around each revision (including the revision itself),
+	 *   oldest first, mapped by revision ID
+	 * @private
+	 */
+	private static async getHistories(
+		conn: Knex,
+		revisions: RevertTarget[],
+		signal?: AbortSignal
+	): Promise<Map<number, HistoryRow[]>> {
+		const histories = new Map<number, HistoryRow[]>();
+		if ( revisions.length === 0 ) {
+			return histories;
+		}
+
+		const queries = revisions.flatMap( ( revision ) => {
+			const timestamp = toDbTimestamp( new Date( revision.timestamp ) );
+			const around = () => conn( 'revision' )
+				.select( 'rev_id', 'rev_timestamp', 'rev_sha1' )
+				.select( conn.raw( '? AS target', [ revision.revid ] ) )
+				.where( 'rev_page', revision.page.pageid );
+			return [
+				// The revision itself, and the revisions before it
+				around()
+					.where( ( clause ) => clause
+						.where( 'rev_timestamp', '<', timestamp )
+						.orWhere( ( inner ) => inner
+							.where( 'rev_timestamp', timestamp )
+							.where( 'rev_id', '<=', revision.revid )
+						)
+					)
+					.orderBy( [
+						{ column: 'rev_timestamp', order: 'desc' },
+						{ column: 'rev_id', order: 'desc' }
+					] )
+					.limit( RevertDetector.WINDOW + 1 ),
+				// The revisions after it
+				around()
+					.where( ( clause ) => clause
+						.where( 'rev_timestamp', '>', timestamp )
+						.orWhere( ( inner ) => inner
+							.where( 'rev_timestamp', timestamp )
+							.where( 'rev_id', '>', revision.revid )
+						)
+					)
+					.orderBy( [
+						{ column: 'rev_timestamp', order: 'asc' },
+						{ column: 'rev_id', order: 'asc' }
+					] )
+					.limit( RevertDetector.WINDOW )
+			];
+		} );
+
+		const rows = await dbAbortable( conn.unionAll( queries, true ), signal );
+		for ( const row of rows ) {
+			if ( !histories.has( +row.target ) ) {
+				histories.set( +row.target, [] );
+			}
+			histories.get( +row.target ).push( {
+				revid: +row.rev_id,
+				timestamp: dbString( row.rev_timestamp ),
+				sha1: dbString( row.rev_sha1, null )
+			} );
+		}
+		for ( const history of histories.values() ) {
+			history.sort(
+				( a, b ) => a.timestamp.localeCompare( b.timestamp ) || a.revid - b.revid
+			);
+		}
+		return histories;
+	}
+
+}
@@ -1,8 +1,25 @@
 import { isValidRevision, MissingRevision, Revision, RevisionData } from '../models/Revision';
 import { ApiResponse, mwn } from 'mwn';
 import fakePromise, { FakePromise } from '../util/func/fakePromise';
-import stagger from '../util/func/stagger';
 import Log from '../util/Log';
+import CircuitBreaker from '../util/CircuitBreaker';
+import { SiteMatrixSite } from '../util/WikimediaSiteMatrix';
+import DatabaseRevisionFetcher from './DatabaseRevisionFetcher';
+
+/**
+ * Where an expanded revision was fetched from.
+ * - `api` – the MediaWiki Action API
+ * - `replica` – the Wiki Replicas. These revisions lack parsed comments.
+ */
+export type RevisionSource = 'api' | 'replica';
+
+/**
+ * An expanded revision, along with where it was fetched from.
+ */
+export interface ExpandedRevisionResult {
+	revision: Revision;
+	source: RevisionSource;
+}
 
 /**
  * @example https://w.wiki/6Dzt
@@ -22,74 +39,238 @@ interface ApiQueryRevisionResponse extends ApiResponse {
 /**
  * Class for expanding revisions into their Deputy-usable versions.
  *
- * The expander works as a staggered requester. Once revisions are submitted,
- * a promise is returned which eventually resolves to the expanded revision.
- * Revisions are requested in batches to avoid overloading the MediaWiki
- * server.
+ * Once revisions are submitted, a promise is returned which eventually resolves
+ * to the expanded revision. Revisions are requested in batches, in the order in
+ * which they were queued, and only a few batches are requested at once to avoid
+ * overloading the MediaWiki server.
+ *
+ * If a site is given, requests go through a circuit breaker for that site. When the
+ * API fails or is too slow, revisions are fetched from the Wiki Replicas instead.
+ * This can be disabled by setting the `DISPATCH_REPLICA_FALLBACK` environment
+ * variable to `false`. Expanders for a user's own client never fall back, as the
+ * replicas cannot show the deleted data which the user can see.
+ *
+ * Expanders are long-lived and shared by all requests for a site (see
+ * {@link WikimediaSessionManager.getExpander}). Revisions queued within a short window
+ * are requested together, and revisions which are already queued or being requested
+ * are not requested again.
  */
 export default class RevisionExpander {
 
 	static readonly PER_BATCH = 50;
+	/**
+	 * How long (in milliseconds) to wait for more revisions before requesting a batch
+	 * which is not full.
+	 */
+	static readonly BATCH_WINDOW = 25;
+	/**
+	 * The maximum number of batches requested at once by a single expander.
+	 */
+	static readonly CONCURRENT_BATCHES = 3;
+	/**
+	 * Whether to fall back to the Wiki Replicas when the API is failing.
+	 */
+	static readonly REPLICA_FALLBACK = process.env.DISPATCH_REPLICA_FALLBACK !== 'false';
 
-	revisionQueue: Record<number, FakePromise<Revision>> = {};
+	/**
+	 * Circuit breakers for the API of each site, mapped by database name.
+	 */
+	static readonly breakers = new Map<string, CircuitBreaker>();
+
+	/**
+	 * Revisions waiting to be requested, in the order in which they were queued.
+	 */
+	readonly revisionQueue = new Map<number, FakePromise<ExpandedRevisionResult>>();
+	/**
+	 * Revisions which are queued or being requested, mapped by revision ID.
+	 */
+	readonly inFlight = new Map<number, Promise<ExpandedRevisionResult>>();
+	/**
+	 * The number of batches currently being requested.
+	 *
+	 * @private
+	 */
+	private runningBatches = 0;
+	/**
+	 * The timer for requesting a batch which is not full.
+	 *
+	 * @private
+	 */
+	private batchTimer: ReturnType<typeof setTimeout> | null = null;
 
 	/**
 	 * @param client The client to use for requests.
+	 * @param site The site of the client. Required to fall back to the Wiki Replicas.
+	 * @param userClient Whether the client is a user's own client
 	 */
-	constructor( private client: mwn ) {
+	constructor(
+		private client: mwn,
+		private site?: SiteMatrixSite,
+		private readonly userClient = false
+	) {
 		/* ignored */
 	}
 
-	readonly run = stagger( ( async function () {
-		const forProcessing = new Map<number, FakePromise<Revision>>();
-		for ( const revisionId in this.revisionQueue ) {
-			if ( forProcessing.size >= RevisionExpander.PER_BATCH ) {
-				break;
+	/**
+	 * Get the circuit breaker for the API of a site.
+	 *
+	 * @param site The site
+	 * @return The circuit breaker
+	 */
+	static getBreaker( site: SiteMatrixSite ): CircuitBreaker {
+		if ( !RevisionExpander.breakers.has( site.dbname ) ) {
+			RevisionExpander.breakers.set(
+				site.dbname, new CircuitBreaker( `api:${ site.dbname }` )
+			);
+		}
+		return RevisionExpander.breakers.get( site.dbname );
+	}
+
+	/**
+	 * Request batches of queued revisions, with up to {@link CONCURRENT_BATCHES}
+	 * batches being requested at once. Revisions are requested in the order in
+	 * which they were queued.
+	 */
+	run(): void {
+		while (
+			this.runningBatches < RevisionExpander.CONCURRENT_BATCHES &&
+			this.revisionQueue.size > 0
+		) {
+			const forProcessing = new Map<number, FakePromise<ExpandedRevisionResult>>();
+			for ( const [ revisionId, revisionPromise ] of this.revisionQueue ) {
+				if ( forProcessing.size >= RevisionExpander.PER_BATCH ) {
+					break;
+				}
+				forProcessing.set( revisionId, revisionPromise );
+				this.revisionQueue.delete( revisionId );
 			}
 
-			forProcessing.set( +revisionId, this.revisionQueue[ +revisionId ] );
-			delete this.revisionQueue[ +revisionId ];
+			this.runningBatches++;
+			this.runBatch( forProcessing ).finally( () => {
+				this.runningBatches--;
+				this.run();
+			} );
 		}
+	}
 
-		const resolvedRevisions: Record<number, Revision> =
-			await this.request( Array.from( forProcessing.keys() ) );
-		Log.debug( `Processed ${
-			Object.keys( resolvedRevisions ).length
-		} revisions, ${
-			Object.keys( this.revisionQueue ).length
-		} to go.` );
-		for ( const [ id, revisionData ] of Object.entries( resolvedRevisions ) ) {
-			forProcessing.get( +id ).resolver( revisionData );
-			delete this.revisionQueue[ +id ];
+	/**
+	 * Request a batch of revisions, and settle their promises.
+	 *
+	 * @param forProcessing The promises of the revisions to request, mapped by revision ID
+	 * @private
+	 */
+	private async runBatch(
+		forProcessing: Map<number, FakePromise<ExpandedRevisionResult>>
+	): Promise<void> {
+		try {
+			const resolvedRevisions = await this.request( Array.from( forProcessing.keys() ) );
+			Log.debug( `Processed ${
+				resolvedRevisions.size
+			} revisions, ${
+				this.revisionQueue.size
+			} to go.` );
+			for ( const [ id, result ] of resolvedRevisions ) {
+				forProcessing.get( id )?.resolver( result );
+				forProcessing.delete( id );
+				this.inFlight.delete( id );
+			}
+		} catch ( e ) {
+			for ( const [ id, revisionPromise ] of forProcessing ) {
+				revisionPromise.rejector( e );
+				this.inFlight.delete( id );
+			}
+			return;
+		}
+		// Revisions which the request did not return can't be expanded.
+		for ( const [ id, revisionPromise ] of forProcessing ) {
+			revisionPromise.rejector( new Error( `Revision ${ id } was not returned` ) );
+			this.inFlight.delete( id );
 		}
-	} ).bind( this ), () => Object.keys( this.revisionQueue ).length > 0 );
+	}
 
 	/**
 	 * Queues a set of revisions into the expander. The expander will request
-	 * all of these and return appropriate promises.
+	 * all of these and return appropriate promises. Revisions which are already
+	 * queued or being requested share the promise of the earlier request.
 	 *
 	 * @param revisions
 	 * @return A set of revisions and their respective Promises.
 	 */
-	queue( revisions: number[] ): Record<number, Promise<Revision>> {
-		const fakePromises = {};
+	queue( revisions: number[] ): Record<number, Promise<ExpandedRevisionResult>> {
+		const fakePromises: Record<number, Promise<ExpandedRevisionResult>> = {};
 		for ( const rev of revisions ) {
-			const revPromise = fakePromise<Revision>();
-			this.revisionQueue[ rev ] = revPromise;
-			fakePromises[ rev ] = revPromise.promise;
-			Log.trace( `Revision queued for query: ${rev}` );
+			if ( !this.inFlight.has( rev ) ) {
+				const revPromise = fakePromise<ExpandedRevisionResult>();
+				this.revisionQueue.set( rev, revPromise );
+				this.inFlight.set( rev, revPromise.promise );
+				Log.trace( `Revision queued for query: ${rev}` );
+			}
+			fakePromises[ rev ] = this.inFlight.get( rev );
+		}
+
+		if ( this.revisionQueue.size >= RevisionExpander.PER_BATCH ) {
+			this.run();
+		} else if ( this.batchTimer == null ) {
+			// Wait for other requests to fill up the batch.
+			this.batchTimer = setTimeout( () => {
+				this.batchTimer = null;
+				this.run();
+			}, RevisionExpander.BATCH_WINDOW );
 		}
-		this.run();
 		return fakePromises;
 	}
 
 	/**
-	 * Process an actual data request. Called by the staggered requester, or
+	 * Process an actual data request. Called for each batch of queued revisions, or
 	 * directly by anything that might need expanded revisions.
 	 *
 	 * @param revisions
+	 * @return The expanded revisions and where they were fetched from, mapped by
+	 *   revision ID
 	 */
-	async request( revisions: number[] ): Promise<Record<number, Revision>> {
+	async request( revisions: number[] ): Promise<Map<number, ExpandedRevisionResult>> {
+		if ( !this.site || !RevisionExpander.REPLICA_FALLBACK || this.userClient ) {
+			return this.withSource( 'api', await this.requestApi( revisions ) );
+		}
+		return RevisionExpander.getBreaker( this.site ).run(
+			async () => this.withSource( 'api', await this.requestApi( revisions ) ),
+			async ( error ) => {
+				if ( error ) {
+					Log.warn( 'Failed to expand revisions with the API. Using replicas.', {
+						error: error.message,
+						wiki: this.site.dbname
+					} );
+				}
+				return this.withSource( 'replica', await this.requestReplica( revisions ) );
+			}
+		);
+	}
+
+	/**
+	 * Attach where revisions were fetched from to the revisions.
+	 *
+	 * @param source The source of the revisions
+	 * @param revisions The revisions, mapped by revision ID
+	 * @return The revisions and their source, mapped by revision ID
+	 * @private
+	 */
+	private withSource(
+		source: RevisionSource,
+		revisions: Record<number, Revision>
+	): Map<number, ExpandedRevisionResult> {
+		return new Map( Object.entries( revisions ).map(
+			( [ revid, revision ] ) => [ +revid, { revision, source } ]
+		) );
+	}
+
+	/**
+	 * Expand revisions with the MediaWiki Action API.
+	 *
+	 * @param revisions
+	 * @return The expanded revisions, mapped by revision ID
+	 * @private
+	 */
+	private async requestApi( revisions: number[] ): Promise<Record<number, Revision>> {
 		const log = Log.child( {
 			context: 'RevisionExpander', reID: Math.random().toString().slice( 2 )
 		} );
@@ -161,6 +342,29 @@ export default class RevisionExpander {
 		return revisionBank;
 	}
 
+	/**
+	 * Expand revisions with the Wiki Replicas. Parsed comments are not available there,
+	 * so these revisions do not have them.
+	 *
+	 * Revisions which are not found are left out, as revisions whose content is hidden
+	 * from the replicas cannot be told apart from missing revisions. These are left
+	 * pending until the API can be used again.
+	 *
+	 * @param revisions
+	 * @return The expanded revisions, mapped by revision ID
+	 * @private
+	 */
+	private async requestReplica( revisions: number[] ): Promise<Record<number, Revision>> {
+		Log.debug( `Expanding ${revisions.length} revisions from the replicas...` );
+		const revisionBank: Record<number, Revision> = {};
+		const fetchedRevisions = await new DatabaseRevisionFetcher( this.site, 'web' )
+			.fetch( ( qb ) => qb.whereIn( 'main.rev_id', revisions ) );
+		for ( const revision of fetchedRevisions ) {
+			revisionBank[ revision.revid ] = revision as Revision;
+		}
+		return revisionBank;
+	}
+
 	/**
 	 * Make a MediaWiki API request for revisions with a given set of revisions
 	 * and props.
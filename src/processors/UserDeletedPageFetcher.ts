@@ -5,6 +5,7 @@ import ReplicaConnection from '../database/ReplicaConnection';
 import dbString from '../database/util/dbString';
 import phpUnserialize from 'phpunserialize';
 import { DeletedPage, PageDeletionInfo } from '../models/DeletedPage';
+import dbAbortable from '../database/util/dbAbortable';
 
 declare module 'phpunserialize' {
 	// eslint-disable-next-line @typescript-eslint/no-shadow
@@ -40,14 +41,15 @@ export default class UserDeletedPageFetcher {
 	 * find the first deletion that happened after the creation timestamp.
 	 *
 	 * @param user
+	 * @param signal A signal which cancels the query when aborted
 	 */
-	async fetch( user: string ): Promise<DeletedPage[]> {
+	async fetch( user: string, signal?: AbortSignal ): Promise<DeletedPage[]> {
 		const conn = await ReplicaConnection.connect( this.site, this.type );
 		const Title = await TitleFactory.get( this.site );
 		const usernameTitle =
 			new Title( user, Title.nameIdMap.user );
 
-		const results = await conn.from( 'archive_userindex' )
+		const results = await dbAbortable( conn.from( 'archive_userindex' )
 			.select( [
 				'ar_id',
 				'ar_namespace',
@@ -75,7 +77,7 @@ export default class UserDeletedPageFetcher {
 				.where( 'a.actor_name', usernameTitle.getMainText() )
 				.limit( 1 )
 			)
-			.andWhere( 'ar_parent_id', 0 );
+			.andWhere( 'ar_parent_id', 0 ), signal );
 
 		const resultsMap = new Map<number, DeletedPage>();
 
@@ -15,6 +15,8 @@ import { MwnTitleStatic } from 'mwn/build/title';
 import dbString from '../database/util/dbString';
 import DatabaseRevisionFetcher from './DatabaseRevisionFetcher';
 import phpUnserialize from 'phpunserialize';
+import dbAbortable from '../database/util/dbAbortable';
+import toDbTimestamp from '../database/util/toDbTimestamp';
 
 declare module 'phpunserialize' {
 	// eslint-disable-next-line @typescript-eslint/no-shadow
@@ -49,15 +51,18 @@ export default class UserDeletedRevisionFetcher {
 	 * queries and provide progress indicators.
 	 *
 	 * @param user
+	 * @param signal A signal which cancels the queries when aborted
 	 */
-	async fetch( user: string ): Promise<TextDeletedRevision[]> {
+	async fetch( user: string, signal?: AbortSignal ): Promise<TextDeletedRevision[]> {
 		const conn = await ReplicaConnection.connect( this.site, this.type );
 		const Title = await TitleFactory.get( this.site );
 		const usernameTitle =
 			new Title( user, Title.nameIdMap.user );
 
-		const deletedRevs = await this.getUserDeletedRevisions( conn, Title, usernameTitle );
-		return this.upgradeDeletedRevisions( conn, Title, deletedRevs );
+		const deletedRevs = await this.getUserDeletedRevisions(
+			conn, Title, usernameTitle, signal
+		);
+		return this.upgradeDeletedRevisions( conn, Title, deletedRevs, signal );
 	}
 
 	/**
@@ -67,23 +72,81 @@ export default class UserDeletedRevisionFetcher {
 	 * is not wiped from the replica revision table) because the revision must
 	 * have a valid actor (which, in this case, is always true).
 	 *
+	 * If `since` is provided, only revisions made after that time or revisions which
+	 * were deleted after that time are returned.
+	 *
 	 * @param conn
 	 * @param Title
 	 * @param user The user to get
+	 * @param signal A signal which cancels the query when aborted
+	 * @param since The time to get newly-made or newly-deleted revisions from
+	 * @param deletedSince The IDs of revisions whose visibility changed after `since`,
+	 *   if already known. See {@link getRevisionIdsDeletedSince}.
 	 */
-	async getUserDeletedRevisions( conn: Knex, Title: MwnTitleStatic, user: MwnTitle ):
-		Promise<PossibleDeletedRevision[]> {
+	async getUserDeletedRevisions(
+		conn: Knex,
+		Title: MwnTitleStatic,
+		user: MwnTitle,
+		signal?: AbortSignal,
+		since?: Date,
+		deletedSince?: number[]
+	): Promise<PossibleDeletedRevision[]> {
+		if ( since && !deletedSince ) {
+			deletedSince = await this.getRevisionIdsDeletedSince( conn, Title, since, signal );
+		}
+
 		return DatabaseRevisionFetcher.fetch(
-			conn, Title, ( qb ) => qb
-				.where( 'main.rev_actor', conn( 'actor_revision' )
-					.select( 'actor_id' )
-					.where( 'actor_name', user.getMain() )
-				)
-				.andWhere( 'main.rev_deleted', '>', 0 )
-				.orderBy( 'main.rev_timestamp', 'desc' )
+			conn, Title, ( qb ) => {
+				qb
+					.where( 'main.rev_actor', conn( 'actor_revision' )
+						.select( 'actor_id' )
+						.where( 'actor_name', user.getMain() )
+					)
+					.andWhere( 'main.rev_deleted', '>', 0 );
+				if ( since ) {
+					qb.andWhere( ( sqb ) => {
+						sqb.where( 'main.rev_timestamp', '>', toDbTimestamp( since ) );
+						if ( deletedSince.length > 0 ) {
+							sqb.orWhereIn( 'main.rev_id', deletedSince );
+						}
+					} );
+				}
+				return qb.orderBy( 'main.rev_timestamp', 'desc' );
+			},
+			signal
 		);
 	}
 
+	/**
+	 * Get the IDs of all revisions which had their visibility changed after a given time.
+	 *
+	 * @param conn
+	 * @param Title
+	 * @param since The time to get revision deletions from
+	 * @param signal A signal which cancels the query when aborted
+	 * @return The IDs of the affected revisions
+	 */
+	async getRevisionIdsDeletedSince(
+		conn: Knex,
+		Title: MwnTitleStatic,
+		since: Date,
+		signal?: AbortSignal
+	): Promise<number[]> {
+		const logQuery = conn( 'logging_logindex' )
+			.select( [ 'log_id', 'log_timestamp', 'log_params' ] )
+			.where( 'log_type', 'delete' )
+			.andWhere( 'log_action', 'revision' )
+			.andWhere( 'log_timestamp', '>', toDbTimestamp( since ) )
+			.whereNotNull( 'log_params' );
+		const ids = new Set<number>();
+		for ( const entry of await dbAbortable( logQuery, signal ) ) {
+			for ( const id of this.logDeserialize( Title, entry ).params?.ids ?? [] ) {
+				ids.add( id );
+			}
+		}
+		return Array.from( ids );
+	}
+
 	/**
 	 * Upgrades deleted revisions by locating the log entry which caused the
 	 * deletion. For suppressed revisions, there is no way to determine this
@@ -93,15 +156,17 @@ export default class UserDeletedRevisionFetcher {
 	 * @param conn
 	 * @param Title
 	 * @param revisions
+	 * @param signal A signal which cancels the query when aborted
 	 */
 	async upgradeDeletedRevisions(
 		conn: Knex,
 		Title: MwnTitleStatic,
-		revisions: ( PossibleDeletedRevision )[]
+		revisions: ( PossibleDeletedRevision )[],
+		signal?: AbortSignal
 	): Promise<TextDeletedRevision[]> {
 		const revisionIds = revisions.map( r => r.revid );
 
-		const foundLogEntries: RevisionDeletionInfo[] = await conn( 'logging_userindex' )
+		const logQuery = conn( 'logging_userindex' )
 			.select( [
 				'log_id',
 				'log_timestamp',
@@ -126,7 +191,8 @@ export default class UserDeletedRevisionFetcher {
 				}
 				return ref;
 			} )
-			.orderBy( 'log_timestamp', 'asc' )
+			.orderBy( 'log_timestamp', 'asc' );
+		const foundLogEntries: RevisionDeletionInfo[] = await dbAbortable( logQuery, signal )
 			.then( entries => entries.map( this.logDeserialize.bind( this, Title ) ) );
 
 		// Index each log entry by the revision IDs they include
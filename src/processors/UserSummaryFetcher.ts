@@ -0,0 +1,273 @@
+import { SiteMatrixSite } from '../util/WikimediaSiteMatrix';
+import TitleFactory from '../util/Title';
+import dbTimestamp from '../database/util/dbTimestamp';
+import ReplicaConnection from '../database/ReplicaConnection';
+import dbString from '../database/util/dbString';
+import dbAbortable from '../database/util/dbAbortable';
+
+/**
+ * Live and deleted counts of something.
+ */
+export interface UserSummaryCount {
+	live: number;
+	deleted: number;
+}
+
+/**
+ * Statistics on the contributions of a user. Deleted edits are edits to deleted pages.
+ */
+export interface UserContributionSummary {
+	/**
+	 * The number of edits by the user.
+	 */
+	edits: UserSummaryCount;
+	/**
+	 * The number of edits by the user in each namespace, mapped by namespace ID.
+	 */
+	namespaces: Record<number, UserSummaryCount>;
+	/**
+	 * The timestamp of the first edit by the user (live or deleted), if any.
+	 */
+	firstEdit: string | null;
+	/**
+	 * The timestamp of the last edit by the user (live or deleted), if any.
+	 */
+	lastEdit: string | null;
+	/**
+	 * The number of pages created by the user, split by whether they still exist (`live`)
+	 * or are now deleted (`deleted`).
+	 */
+	pagesCreated: UserSummaryCount;
+	/**
+	 * The total number of bytes added by live edits to the main namespace. Edits which
+	 * removed more than they added do not count.
+	 */
+	mainspaceBytesAdded: number;
+	/**
+	 * The number of edits by the user in each month, mapped by month (as `YYYY-MM`).
+	 * Months without edits are left out.
+	 */
+	monthly: Record<string, UserSummaryCount>;
+}
+
+/**
+ * Collects statistics on the contributions of a user from the Replica database.
+ */
+export default class UserSummaryFetcher {
+
+	/**
+	 * Creates a new UserSummaryFetcher object
+	 *
+	 * @param site The site to run queries on
+	 * @param type Which Replica to use (web = interactive, analytics = less load)
+	 */
+	constructor(
+		readonly site: SiteMatrixSite,
+		readonly type: 'analytics' | 'web'
+	) {
+	}
+
+	/**
+	 * Get an empty count.
+	 *
+	 * @return A count of zero live and zero deleted
+	 * @private
+	 */
+	private static emptyCount(): UserSummaryCount {
+		return { live: 0, deleted: 0 };
+	}
+
+	/**
+	 * Collects statistics on the live edits of a user.
+	 *
+	 * @param user The normalized username of the user
+	 * @param summary The summary to add the statistics to
+	 * @param signal A signal which cancels the queries when aborted
+	 */
+	async fetchLive(
+		user: string,
+		summary: UserContributionSummary,
+		signal?: AbortSignal
+	): Promise<void> {
+		const conn = await ReplicaConnection.connect( this.site, this.type );
+		const Title = await TitleFactory.get( this.site );
+		const actor = conn( 'actor_revision' )
+			.select( 'actor_id' )
+			.where( 'actor_name', new Title( user, Title.nameIdMap.user ).getMainText() )
+			.limit( 1 );
+
+		const namespaces = await dbAbortable( conn( { main: 'revision_userindex' } )
+			.select(
+				'page_namespace',
+				conn.raw( 'COUNT(*) AS edits' ),
+				conn.raw( 'MIN(main.rev_timestamp) AS first_edit' ),
+				conn.raw( 'MAX(main.rev_timestamp) AS last_edit' ),
+				conn.raw( 'SUM(main.rev_parent_id = 0) AS created' ),
+				conn.raw(
+					'SUM(GREATEST(CAST(main.rev_len AS SIGNED) - ' +
+					'CAST(COALESCE(parent.rev_len, 0) AS SIGNED), 0)) AS bytes_added'
+				)
+			)
+			.withRevisionPage( [], 'main' )
+			.withRevisionParents( [], 'main', 'parent' )
+			.where( 'main.rev_actor', actor )
+			.groupBy( 'page_namespace' ), signal );
+		for ( const row of namespaces ) {
+			const ns = +row.page_namespace;
+			summary.namespaces[ ns ] = summary.namespaces[ ns ] ??
+				UserSummaryFetcher.emptyCount();
+			summary.namespaces[ ns ].live += +row.edits;
+			summary.edits.live += +row.edits;
+			summary.pagesCreated.live += +row.created;
+			if ( ns === 0 ) {
+				summary.mainspaceBytesAdded += +row.bytes_added;
+			}
+			UserSummaryFetcher.addEditRange( summary, row.first_edit, row.last_edit );
+		}
+
+		const months = await dbAbortable( conn( 'revision_userindex' )
+			.select(
+				conn.raw( 'LEFT(rev_timestamp, 6) AS month' ),
+				conn.raw( 'COUNT(*) AS edits' )
+			)
+			.where( 'rev_actor', actor )
+			.groupBy( 'month' ), signal );
+		for ( const row of months ) {
+			UserSummaryFetcher.getMonth( summary, dbString( row.month ) ).live += +row.edits;
+		}
+	}
+
+	/**
+	 * Collects statistics on the deleted edits of a user.
+	 *
+	 * @param user The normalized username of the user
+	 * @param summary The summary to add the statistics to
+	 * @param signal A signal which cancels the queries when aborted
+	 */
+	async fetchDeleted(
+		user: string,
+		summary: UserContributionSummary,
+		signal?: AbortSignal
+	): Promise<void> {
+		const conn = await ReplicaConnection.connect( this.site, this.type );
+		const Title = await TitleFactory.get( this.site );
+		const actor = conn( 'actor_revision' )
+			.select( 'actor_id' )
+			.where( 'actor_name', new Title( user, Title.nameIdMap.user ).getMainText() )
+			.limit( 1 );
+
+		const namespaces = await dbAbortable( conn( 'archive_userindex' )
+			.select(
+				'ar_namespace',
+				conn.raw( 'COUNT(*) AS edits' ),
+				conn.raw( 'MIN(ar_timestamp) AS first_edit' ),
+				conn.raw( 'MAX(ar_timestamp) AS last_edit' ),
+				conn.raw( 'SUM(ar_parent_id = 0) AS created' )
+			)
+			.where( 'ar_actor', actor )
+			.groupBy( 'ar_namespace' ), signal );
+		for ( const row of namespaces ) {
+			const ns = +row.ar_namespace;
+			summary.namespaces[ ns ] = summary.namespaces[ ns ] ??
+				UserSummaryFetcher.emptyCount();
+			summary.namespaces[ ns ].deleted += +row.edits;
+			summary.edits.deleted += +row.edits;
+			summary.pagesCreated.deleted += +row.created;
+			UserSummaryFetcher.addEditRange( summary, row.first_edit, row.last_edit );
+		}
+
+		const months = await dbAbortable( conn( 'archive_userindex' )
+			.select(
+				conn.raw( 'LEFT(ar_timestamp, 6) AS month' ),
+				conn.raw( 'COUNT(*) AS edits' )
+			)
+			.where( 'ar_actor', actor )
+			.groupBy( 'month' ), signal );
+		for ( const row of months ) {
+			UserSummaryFetcher.getMonth( summary, dbString( row.month ) ).deleted += +row.edits;
+		}
+	}
+
+	/**
+	 * Collects statistics on the contributions of a user.
+	 *
+	 * @param user The normalized username of the user
+	 * @param signal A signal which cancels the queries when aborted
+	 * @return The statistics
+	 */
+	async fetch( user: string, signal?: AbortSignal ): Promise<UserContributionSummary> {
+		const summary = UserSummaryFetcher.emptySummary();
+		await this.fetchLive( user, summary, signal );
+		await this.fetchDeleted( user, summary, signal );
+		return UserSummaryFetcher.finalize( summary );
+	}
+
+	/**
+	 * Get a summary without any contributions.
+	 *
+	 * @return The empty summary
+	 */
+	static emptySummary(): UserContributionSummary {
+		return {
+			edits: UserSummaryFetcher.emptyCount(),
+			namespaces: {},
+			firstEdit: null,
+			lastEdit: null,
+			pagesCreated: UserSummaryFetcher.emptyCount(),
+			mainspaceBytesAdded: 0,
+			monthly: {}
+		};
+	}
+
+	/**
+	 * Sort the months of a summary, oldest first.
+	 *
+	 * @param summary The summary
+	 * @return The summary
+	 */
+	static finalize( summary: UserContributionSummary ): UserContributionSummary {
+		summary.monthly = Object.fromEntries(
+			Object.entries( summary.monthly ).sort( ( [ a ], [ b ] ) => a.localeCompare( b ) )
+		);
+		return summary;
+	}
+
+	/**
+	 * Widen the range of edit dates of a summary.
+	 *
+	 * @param summary The summary
+	 * @param first The timestamp of the first edit of a group, in the MediaWiki DB format
+	 * @param last The timestamp of the last edit of a group, in the MediaWiki DB format
+	 * @private
+	 */
+	private static addEditRange(
+		summary: UserContributionSummary,
+		first: string | Buffer,
+		last: string | Buffer
+	) {
+		const firstEdit = dbTimestamp( first )?.toISOString() ?? null;
+		const lastEdit = dbTimestamp( last )?.toISOString() ?? null;
+		// ISO 8601 timestamps in UTC sort the same way as the dates they stand for.
+		if ( firstEdit && ( !summary.firstEdit || firstEdit < summary.firstEdit ) ) {
+			summary.firstEdit = firstEdit;
+		}
+		if ( lastEdit && ( !summary.lastEdit || lastEdit > summary.lastEdit ) ) {
+			summary.lastEdit = lastEdit;
+		}
+	}
+
+	/**
+	 * Get the count of a month in a summary, adding it if missing.
+	 *
+	 * @param summary The summary
+	 * @param month The month, as `YYYYMM`
+	 * @return The count of the month
+	 * @private
+	 */
+	private static getMonth( summary: UserContributionSummary, month: string ): UserSummaryCount {
+		const key = `${ month.slice( 0, 4 ) }-${ month.slice( 4, 6 ) }`;
+		summary.monthly[ key ] = summary.monthly[ key ] ?? UserSummaryFetcher.emptyCount();
+		return summary.monthly[ key ];
+	}
+
+}
@@ -8,6 +8,7 @@ import countInstances from '../util/func/countInstances';
 import Log from '../util/Log';
 import regexClone from '../util/func/regexClone';
 import { AsyncTask } from '../routes/abstract/AsyncTask';
+import throwIfAborted from '../util/func/throwIfAborted';
 
 type UserTalkPageFetcherFilter = string | string[] | RegExp | { source: string, flags: string };
 
@@ -22,6 +23,11 @@ export interface PageRevisions {
 	ns: number;
 	title: string;
 	revisions: ( Revision & PageFilterInfo )[];
+	/**
+	 * The ID of the last revision processed. Used as the high-water mark when this
+	 * result is refreshed.
+	 */
+	lastrevid?: number;
 }
 
 /**
@@ -38,12 +44,15 @@ export default class UserTalkPageFetcher {
 	 * @param site
 	 * @param filter
 	 * @param task
+	 * @param previous An earlier result to refresh. Only revisions made after the
+	 *   earlier result's last revision are processed, and merged into it.
 	 */
 	static async fetch(
 		user: string,
 		site: SiteMatrixSite,
 		filter: UserTalkPageFetcherFilter,
-		task?: AsyncTask<any>
+		task?: AsyncTask<any>,
+		previous?: PageRevisions
 	): Promise<PageRevisions> {
 		const mw = await WikimediaSessionManager.getClient( site );
 		// Library issue. What can I do about it?
@@ -61,14 +70,24 @@ export default class UserTalkPageFetcher {
 		let updateFunction;
 		if ( task ) {
 			const totalRevisionCount = UserTalkPageFetcher.getRevisionCount( site, userTalk );
-			updateFunction = async ( revisionCount ) => {
+			updateFunction = async ( revisionCount, newRevisions ) => {
+				task.pushPartial( newRevisions );
 				task.updateProgress( revisionCount / await totalRevisionCount );
 			};
 		}
 
 		return UserTalkPageFetcher
-			.processRevisions( mw, userTalk, filter, updateFunction )
+			.processRevisions(
+				mw, userTalk, filter, updateFunction, task?.signal, previous?.lastrevid
+			)
 			.then( ( revisions ) => {
+				if ( previous?.lastrevid != null ) {
+					revisions = {
+						...revisions,
+						revisions: previous.revisions.concat( revisions.revisions ),
+						lastrevid: revisions.lastrevid ?? previous.lastrevid
+					};
+				}
 				if ( task ) {
 					task.finish( revisions );
 				}
@@ -105,22 +124,68 @@ export default class UserTalkPageFetcher {
 	 * @param pageTitle
 	 * @param filter
 	 * @param onProgress A progress update function. The function is called with the
-	 * number of processed revisions after each API call.
+	 * number of processed revisions and the newly-found matching revisions after each
+	 * API call.
+	 * @param signal A signal which stops further requests when aborted
+	 * @param after The ID of the last revision which was already processed. If provided,
+	 *   only revisions made after it are processed.
 	 */
 	static async processRevisions(
 		mw: mwn,
 		pageTitle: MwnTitle,
 		filter: UserTalkPageFetcherFilter,
-		onProgress: ( revisionCount: number ) => any
+		onProgress: (
+			revisionCount: number,
+			newRevisions: ( Revision & PageFilterInfo )[]
+		) => any,
+		signal?: AbortSignal,
+		after?: number
 	): Promise<PageRevisions> {
 		let pageid = null;
 		let ns = null;
 		let title = null;
+		let lastrevid = null;
 
 		let processedRevisions = 0;
 
 		const history: ( Revision & PageFilterInfo )[] = [];
 		let lastHits = new Map( Array.isArray( filter ) ? filter.map( f => [ f, 0 ] ) : [] );
+		let reportedHistory = 0;
+
+		const getHits = ( content: string ) => {
+			const matches = stringMatches( content, filter );
+			const filterSanitized = [];
+			const filterLookup = {};
+			for ( const { filter: matchFilter } of matches.offset ) {
+				const filterJson = JSON.stringify( matchFilter );
+				filterSanitized.push( filterJson );
+				filterLookup[ filterJson ] = matchFilter;
+			}
+			const hits = countInstances(
+				filterSanitized,
+				[
+					...( Array.isArray( filter ) ? filter : [] ),
+					...lastHits.keys()
+				]
+			);
+			return { matches, filterLookup, hits };
+		};
+
+		if ( after != null ) {
+			// Start comparing from the last revision which was already processed.
+			const lastRevision = await mw.request( {
+				action: 'query',
+				prop: 'revisions',
+				revids: after,
+				rvprop: 'ids|content',
+				rvslots: 'main',
+				formatversion: '2'
+			} ).then( ( r ) => r.query.pages?.[ 0 ]?.revisions?.[ 0 ] );
+			if ( lastRevision?.slots?.main?.content != null ) {
+				lastHits = getHits( lastRevision.slots.main.content ).hits;
+			}
+		}
+
 		for await ( const response of mw.continuedQueryGen( {
 			action: 'query',
 			prop: 'revisions',
@@ -128,13 +193,20 @@ export default class UserTalkPageFetcher {
 			rvprop: 'ids|timestamp|flags|parsedcomment|comment|user|content',
 			rvslots: 'main', // TODO: Slot support
 			rvlimit: 'max',
-			rvdir: 'newer'
+			rvdir: 'newer',
+			...( after != null ? { rvstartid: after } : {} )
 		} ) ) {
+			throwIfAborted( signal );
 			pageid = pageid ?? response.query.pages[ 0 ].pageid;
 			ns = ns ?? response.query.pages[ 0 ].ns;
 			title = title ?? response.query.pages[ 0 ].title;
 
-			for ( const revision of response.query.pages[ 0 ].revisions ) {
+			for ( const revision of response.query.pages[ 0 ].revisions ?? [] ) {
+				if ( revision.revid === after ) {
+					// Already processed
+					continue;
+				}
+				lastrevid = revision.revid;
 				if ( revision.slots.main.content == null ) {
 					// Revision deleted, skip
 					continue;
@@ -142,21 +214,7 @@ export default class UserTalkPageFetcher {
 
 				// Compare with filters
 				const content = revision.slots.main.content;
-				const matches = stringMatches( content, filter );
-				const filterSanitized = [];
-				const filterLookup = {};
-				for ( const { filter: matchFilter } of matches.offset ) {
-					const filterJson = JSON.stringify( matchFilter );
-					filterSanitized.push( filterJson );
-					filterLookup[ filterJson ] = matchFilter;
-				}
-				const hits = countInstances(
-					filterSanitized,
-					[
-						...( Array.isArray( filter ) ? filter : [] ),
-						...lastHits.keys()
-					]
-				);
+				const { matches, filterLookup, hits } = getHits( content );
 
 				// Get rid of content now to omit it from output data
 				delete revision.slots;
@@ -195,16 +253,18 @@ export default class UserTalkPageFetcher {
 				lastHits = hits;
 			}
 
-			processedRevisions += response.query.pages[ 0 ].revisions.length;
+			processedRevisions += response.query.pages[ 0 ].revisions?.length ?? 0;
 			Log.trace( `Processed ${processedRevisions} revisions...` );
 			if ( onProgress ) {
-				onProgress( processedRevisions );
+				onProgress( processedRevisions, history.slice( reportedHistory ) );
 			}
+			reportedHistory = history.length;
 		}
 
 		return {
 			pageid, ns, title,
-			revisions: history
+			revisions: history,
+			lastrevid
 		};
 	}
 
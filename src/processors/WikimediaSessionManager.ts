@@ -1,6 +1,8 @@
 import { mwn } from 'mwn';
 import { SiteMatrixSite, WikimediaSiteMatrix } from '../util/WikimediaSiteMatrix';
 import toolUserAgent from '../util/func/toolUserAgent';
+import { UserSession } from '../auth/UserSessionManager';
+import RevisionExpander from './RevisionExpander';
 
 /**
  *
@@ -8,18 +10,27 @@ import toolUserAgent from '../util/func/toolUserAgent';
 export default class WikimediaSessionManager {
 
 	static clientStore: Map<string, mwn> = new Map();
+	/**
+	 * Clients for logged-in users, mapped by access token, then by wiki DB name.
+	 * Clients are dropped once their access token expires.
+	 */
+	static userClientStore: Map<string, {
+		expireTime: number,
+		clients: Map<string, mwn>,
+		expanders: Map<string, RevisionExpander>
+	}> = new Map();
+	/**
+	 * Revision expanders using the default client, mapped by wiki DB name. These are
+	 * shared by all requests, so that their revisions are requested together.
+	 */
+	static expanderStore: Map<string, RevisionExpander> = new Map();
 
 	/**
 	 *
 	 * @param wiki The DB name of the wiki, or a SiteMatrixSite.
 	 */
 	static async getClient( wiki: string | SiteMatrixSite ): Promise<mwn> {
-		if ( typeof wiki === 'string' ) {
-			wiki = await WikimediaSiteMatrix.i.getDbName( wiki );
-			if ( !wiki ) {
-				throw new Error( 'Invalid wiki DB name provided!' );
-			}
-		}
+		wiki = await this.getSite( wiki );
 
 		if ( this.clientStore.has( wiki.dbname ) ) {
 			return this.clientStore.get( wiki.dbname );
@@ -31,6 +42,71 @@ export default class WikimediaSessionManager {
 		return client;
 	}
 
+	/**
+	 * Get a client which acts as a logged-in user, using that user's own rights.
+	 *
+	 * @param wiki The DB name of the wiki, or a SiteMatrixSite.
+	 * @param session The session of the user
+	 */
+	static async getUserClient(
+		wiki: string | SiteMatrixSite,
+		session: UserSession
+	): Promise<mwn> {
+		wiki = await this.getSite( wiki );
+
+		const now = Date.now();
+		for ( const [ accessToken, entry ] of this.userClientStore.entries() ) {
+			if ( entry.expireTime < now ) {
+				this.userClientStore.delete( accessToken );
+			}
+		}
+		if ( session.expireTime < now ) {
+			throw new Error( 'The access token of the session has expired!' );
+		}
+
+		if ( !this.userClientStore.has( session.accessToken ) ) {
+			this.userClientStore.set( session.accessToken, {
+				expireTime: session.expireTime,
+				clients: new Map(),
+				expanders: new Map()
+			} );
+		}
+		const clients = this.userClientStore.get( session.accessToken ).clients;
+		if ( clients.has( wiki.dbname ) ) {
+			return clients.get( wiki.dbname );
+		}
+
+		const client = await this.createClient( wiki, session.accessToken );
+		clients.set( wiki.dbname, client );
+		return client;
+	}
+
+	/**
+	 * Get the shared revision expander of a wiki. If a session is given, the expander
+	 * uses the client of that user, and is only shared by the requests of that session.
+	 *
+	 * @param wiki The DB name of the wiki, or a SiteMatrixSite.
+	 * @param session The session of the user
+	 * @return The revision expander
+	 */
+	static async getExpander(
+		wiki: string | SiteMatrixSite,
+		session?: UserSession
+	): Promise<RevisionExpander> {
+		wiki = await this.getSite( wiki );
+
+		const client = session ?
+			await this.getUserClient( wiki, session ) :
+			await this.getClient( wiki );
+		const expanders = session ?
+			this.userClientStore.get( session.accessToken ).expanders :
+			this.expanderStore;
+		if ( !expanders.has( wiki.dbname ) ) {
+			expanders.set( wiki.dbname, new RevisionExpander( client, wiki, !!session ) );
+		}
+		return expanders.get( wiki.dbname );
+	}
+
 	/**
 	 * Creates a new bot client with mwn.
 	 *
@@ -50,4 +126,21 @@ export default class WikimediaSessionManager {
 		} );
 	}
 
+	/**
+	 * Resolve a wiki DB name to its site.
+	 *
+	 * @param wiki The DB name of the wiki, or a SiteMatrixSite.
+	 * @return The site
+	 * @private
+	 */
+	private static async getSite( wiki: string | SiteMatrixSite ): Promise<SiteMatrixSite> {
+		if ( typeof wiki === 'string' ) {
+			wiki = await WikimediaSiteMatrix.i.getDbName( wiki );
+			if ( !wiki ) {
+				throw new Error( 'Invalid wiki DB name provided!' );
+			}
+		}
+		return wiki;
+	}
+
 }
@@ -1,21 +1,163 @@
 import crypto from 'crypto';
+import { EventEmitter } from 'events';
 import Log from '../../util/Log';
+import type { AsyncTaskRecord } from './AsyncTaskStore';
+
+/**
+ * The state of an asynchronous task.
+ *
+ * - `queued` – the task is waiting for other tasks to finish before it can start
+ * - `running` – the task is still being processed
+ * - `finished` – the task has finished and a result is available
+ * - `cancelled` – the task was cancelled before it could finish
+ * - `failed` – the task experienced an uncaught error
+ */
+export type AsyncTaskState = 'queued' | 'running' | 'finished' | 'cancelled' | 'failed';
+
+/**
+ * A named step of an asynchronous task. Tasks which declare phases compute their
+ * overall progress from the progress within each phase.
+ */
+export interface AsyncTaskPhase {
+	/**
+	 * The machine-readable ID of this phase (e.g. `replicas`).
+	 */
+	id: string;
+	/**
+	 * A human-readable description of this phase (e.g. "Querying replicas"). Used as the
+	 * task's status message when the phase is entered.
+	 */
+	name: string;
+	/**
+	 * How much of the overall task this phase takes up, relative to the weights of the
+	 * other phases.
+	 */
+	weight: number;
+}
+
+export declare interface AsyncTask<R> {
+	on( event: 'start', listener: () => void ): this;
+	on( event: 'progress', listener: ( progress: number ) => void ): this;
+	on( event: 'partial', listener: ( items: unknown[] ) => void ): this;
+	on( event: 'finish', listener: ( result: R ) => void ): this;
+	on( event: 'cancel', listener: () => void ): this;
+	on( event: 'fail', listener: ( error: Error ) => void ): this;
+	off( event: 'start', listener: () => void ): this;
+	off( event: 'progress', listener: ( progress: number ) => void ): this;
+	off( event: 'partial', listener: ( items: unknown[] ) => void ): this;
+	off( event: 'finish', listener: ( result: R ) => void ): this;
+	off( event: 'cancel', listener: () => void ): this;
+	off( event: 'fail', listener: ( error: Error ) => void ): this;
+}
 
 /**
  * An asynchronous task that is currently running. It can be used to set
  * the task progress within the async task, and to indicate when a result
  * has been generated.
+ *
+ * Tasks emit a `start` event once they leave the queue, a `progress` event on
+ * every progress update, a `partial` event whenever partial results are added,
+ * and a `finish`, `cancel`, or `fail` event once the task stops running.
  */
-export class AsyncTask<R> {
+export class AsyncTask<R> extends EventEmitter {
 
-	// Task data expires after 1 hour.
-	static readonly TASK_EXPIRE_TIME = 3600e3;
+	// Task data expires after 1 hour, unless configured otherwise (in seconds).
+	static readonly TASK_EXPIRE_TIME =
+		+( process.env.DISPATCH_TASK_EXPIRE_TIME ?? 3600 ) * 1e3 || 3600e3;
 
 	id: string = crypto.randomUUID();
+	/**
+	 * Whether this task is no longer running. This is also `true` for cancelled
+	 * and failed tasks; use `state` to tell these apart.
+	 */
 	finished: boolean = false;
+	/**
+	 * Whether this task is waiting in the queue. See {@link TaskScheduler}.
+	 */
+	queued: boolean = false;
+	cancelled: boolean = false;
 	progress: number = 0;
+	/**
+	 * The ID of the phase which this task is currently in, if phases were declared.
+	 */
+	phase: string = null;
+	/**
+	 * A human-readable message describing what this task is currently doing.
+	 */
+	status: string = null;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) when this task was started.
+	 */
+	startTime: number = null;
 	expireTime: number = Date.now() + AsyncTask.TASK_EXPIRE_TIME;
 	result: R;
+	/**
+	 * Result items produced so far, for tasks which produce results incrementally.
+	 * Cleared once the task finishes, as the items are then part of the result.
+	 */
+	partial: unknown[] = [];
+	/**
+	 * The uncaught error which stopped this task, if any.
+	 */
+	error: Error;
+	/**
+	 * The name of the only user who may access this task, if any.
+	 */
+	owner: string = null;
+	/**
+	 * The options which identify the request that started this task, if any.
+	 */
+	key: Record<string, any> = null;
+
+	private readonly abortController = new AbortController();
+	private phases: AsyncTaskPhase[] = [];
+
+	/**
+	 * @return The signal which is aborted once this task is cancelled. Pass this
+	 * to anything that does work for this task so that it can stop early.
+	 */
+	get signal(): AbortSignal {
+		return this.abortController.signal;
+	}
+
+	/**
+	 * @return The current state of this task.
+	 */
+	get state(): AsyncTaskState {
+		if ( this.error ) {
+			return 'failed';
+		} else if ( this.cancelled ) {
+			return 'cancelled';
+		} else if ( this.queued ) {
+			return 'queued';
+		}
+		return this.finished ? 'finished' : 'running';
+	}
+
+	/**
+	 * @return The estimated time (as a UNIX timestamp in milliseconds) when this task
+	 * will finish, based on the progress made so far. `null` if the task is not running
+	 * or has not made any progress yet.
+	 */
+	get eta(): number | null {
+		if ( this.state !== 'running' || this.startTime == null || this.progress <= 0 ) {
+			return null;
+		}
+		const elapsed = Date.now() - this.startTime;
+		return Math.round( Date.now() + elapsed * ( 1 - this.progress ) / this.progress );
+	}
+
+	/**
+	 * Mark this task as started, taking it out of the queue.
+	 */
+	start() {
+		this.queued = false;
+		this.startTime = Date.now();
+		Log.trace( 'Started.', {
+			task: this.id
+		} );
+		this.emit( 'start' );
+	}
 
 	/**
 	 * Update the progress of this task.
@@ -27,20 +169,167 @@ export class AsyncTask<R> {
 		Log.trace( `${ ( this.progress * 100 ).toFixed( 2 ) }% done.`, {
 			task: this.id
 		} );
+		this.emit( 'progress', this.progress );
+	}
+
+	/**
+	 * Declare the phases of this task, in the order that they run.
+	 *
+	 * @param phases The phases of this task
+	 */
+	definePhases( phases: AsyncTaskPhase[] ) {
+		this.phases = phases;
+	}
+
+	/**
+	 * Enter a declared phase. This sets the status message to the phase's name,
+	 * unless another message is provided.
+	 *
+	 * @param id The ID of the phase
+	 * @param status The status message to use
+	 */
+	enterPhase( id: string, status?: string ) {
+		const phase = this.phases.find( ( p ) => p.id === id );
+		if ( !phase ) {
+			throw new Error( `Unknown task phase: ${ id }` );
+		}
+		this.phase = id;
+		this.updatePhaseProgress( 0, status ?? phase.name );
 	}
 
 	/**
-	 * Mark this task as finished and set the result.
+	 * Update the progress within the current phase. The overall progress of the task is
+	 * computed from the weights of the phases.
+	 *
+	 * @param progress The progress within the current phase. Must be within 0 and 1.
+	 * @param status The new status message, if it has changed
+	 */
+	updatePhaseProgress( progress: number, status?: string ) {
+		if ( status !== undefined ) {
+			this.status = status;
+		}
+
+		const index = this.phases.findIndex( ( p ) => p.id === this.phase );
+		const weightSum = ( phases: AsyncTaskPhase[] ) =>
+			phases.reduce( ( sum, p ) => sum + p.weight, 0 );
+		const total = weightSum( this.phases );
+		if ( index === -1 || total === 0 ) {
+			this.updateProgress( progress );
+			return;
+		}
+		this.updateProgress( (
+			weightSum( this.phases.slice( 0, index ) ) +
+			this.phases[ index ].weight * Math.max( 0, Math.min( 1, progress ) )
+		) / total );
+	}
+
+	/**
+	 * Set the human-readable status message of this task.
+	 *
+	 * @param status The new status message
+	 */
+	setStatus( status: string ) {
+		this.status = status;
+		this.emit( 'progress', this.progress );
+	}
+
+	/**
+	 * Add partial result items. These can be retrieved by clients while the task
+	 * is still running. Does nothing if the task has already stopped running.
+	 *
+	 * @param items The items to add
+	 */
+	pushPartial( items: unknown[] ) {
+		if ( this.finished ) {
+			return;
+		}
+		for ( const item of items ) {
+			this.partial.push( item );
+		}
+		this.emit( 'partial', items );
+	}
+
+	/**
+	 * Mark this task as finished and set the result. Does nothing if the task
+	 * has already stopped running (e.g. it was cancelled).
 	 *
 	 * @param result
 	 */
 	finish( result: R ) {
+		if ( this.finished ) {
+			return;
+		}
 		this.progress = 1;
 		this.result = result;
+		this.partial = [];
 		this.finished = true;
 		Log.trace( 'Finished.', {
 			task: this.id
 		} );
+		this.emit( 'finish', result );
+	}
+
+	/**
+	 * Mark this task as failed. Called when the task's processing function throws.
+	 * Does nothing if the task has already stopped running.
+	 *
+	 * @param error The error which stopped the task
+	 */
+	fail( error: Error ) {
+		if ( this.finished ) {
+			return;
+		}
+		this.error = error;
+		this.finished = true;
+		Log.trace( 'Failed.', {
+			task: this.id,
+			error
+		} );
+		this.emit( 'fail', error );
+	}
+
+	/**
+	 * Cancel this task. This aborts the task's signal, which stops any work
+	 * still being done for the task.
+	 *
+	 * @return `true` if the task was cancelled, `false` if the task has already
+	 * finished or has already been cancelled.
+	 */
+	cancel(): boolean {
+		if ( this.finished || this.cancelled ) {
+			return false;
+		}
+		this.cancelled = true;
+		this.finished = true;
+		this.abortController.abort();
+		Log.trace( 'Cancelled.', {
+			task: this.id
+		} );
+		this.emit( 'cancel' );
+		return true;
+	}
+
+	/**
+	 * Create a snapshot of this task, for saving into an AsyncTaskStore.
+	 *
+	 * @param list The ID of the task list which this task belongs to
+	 * @return A record of this task
+	 */
+	toRecord( list: string ): AsyncTaskRecord<R> {
+		return {
+			list,
+			id: this.id,
+			state: this.state,
+			progress: this.progress,
+			...( this.phase != null ? { phase: this.phase } : {} ),
+			...( this.status != null ? { status: this.status } : {} ),
+			...( this.eta != null ? { eta: this.eta } : {} ),
+			...( this.state === 'finished' ? { result: this.result } : {} ),
+			...( this.error ? { error: this.error.message } : {} ),
+			...( this.owner != null ? { owner: this.owner } : {} ),
+			...( this.key != null ? { key: this.key } : {} ),
+			expireTime: this.expireTime
+		};
 	}
 
 }
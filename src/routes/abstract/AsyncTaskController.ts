@@ -1,9 +1,17 @@
 import { Controller } from 'tsoa';
 import { ErrorFormat, ErrorResponse } from '../../models/ErrorResponse';
 import express from 'express';
-import { AsyncTask } from './AsyncTask';
+import { AsyncTask, AsyncTaskState } from './AsyncTask';
 import Log from '../../util/Log';
 import ErrorResponseBuilder from '../../util/ErrorResponseBuilder';
+import AsyncTaskStore, { AsyncTaskRecord } from './AsyncTaskStore';
+import MemoryAsyncTaskStore from './MemoryAsyncTaskStore';
+import ToolsDBAsyncTaskStore from './ToolsDBAsyncTaskStore';
+import TaskScheduler, { TaskSchedulingInfo } from './TaskScheduler';
+import TaskCallbackDispatcher from './TaskCallbackDispatcher';
+import TaskDeduplicator from './TaskDeduplicator';
+import clientIdentifier from '../../util/func/clientIdentifier';
+import { optionalAuthentication } from '../../auth/expressAuthentication';
 
 /**
  * Response type which returns the ID of a queued task and its progress.
@@ -12,7 +20,130 @@ import ErrorResponseBuilder from '../../util/ErrorResponseBuilder';
 export interface TaskInformation {
 	id: string;
 	progress: number;
+	/**
+	 * Whether the task is no longer running. This is `true` for finished, cancelled,
+	 * and failed tasks. Check `state` to see which one of those it is.
+	 */
+	finished: boolean;
+	state: AsyncTaskState;
+	/**
+	 * The 1-based position of the task in the work queue. Only available if the
+	 * task is queued.
+	 */
+	queuePosition?: number;
+	/**
+	 * The ID of the phase which the task is currently in. Only available for
+	 * tasks which declare phases.
+	 */
+	phase?: string;
+	/**
+	 * A human-readable message describing what the task is currently doing.
+	 */
+	status?: string;
+	/**
+	 * The estimated time when the task will finish, as an ISO 8601 timestamp. Only
+	 * available for running tasks which have made some progress.
+	 */
+	eta?: string;
+	/**
+	 * Whether the result of this task is stale. Only set when an earlier task was
+	 * reused for a request. A fresh task is being run in the background, and will
+	 * be used for future requests once it finishes.
+	 */
+	stale?: boolean;
+}
+
+/**
+ * Options for starting a task with {@link AsyncTaskController.handleStartRequest}.
+ */
+export interface TaskStartOptions {
+	/**
+	 * Options which identify the request. Requests with the same key share tasks.
+	 * Values in the key must already be canonical (e.g. normalized usernames).
+	 */
+	key: Record<string, any>;
+	/**
+	 * The database name of the wiki which the task works on, if any.
+	 */
+	wiki?: string;
+	/**
+	 * Whether to always start a new task.
+	 */
+	bypassCache?: boolean;
+	/**
+	 * The callback URL provided by the client, if any.
+	 */
+	callback?: string;
+	/**
+	 * The name of the only user who may access the task, for tasks whose result
+	 * depends on the requester's rights. Such tasks are kept in memory only, and
+	 * are never saved into the task store.
+	 */
+	owner?: string;
+}
+
+/**
+ * Response type which returns the result items produced by a task so far.
+ */
+export interface PartialResult<T = any> {
+	/**
+	 * The items produced since the provided cursor.
+	 */
+	items: T[];
+	/**
+	 * The cursor to provide as `since` to get the items produced after these items.
+	 */
+	cursor: number;
+	/**
+	 * Whether the task is no longer running. If `true`, no more items will be produced.
+	 */
 	finished: boolean;
+	state: AsyncTaskState;
+}
+
+/**
+ * Query parameters used to select which parts of a task result to return. If none
+ * of these are provided, the entire result is returned.
+ */
+export interface ResultQuery {
+	/**
+	 * The maximum number of items to return. Must be a positive integer.
+	 */
+	limit?: number;
+	/**
+	 * The `continue` value from the previous page of results.
+	 */
+	continue?: string;
+	/**
+	 * The field to sort items by (e.g. `timestamp`, `diffsize`). Prefix with `-` to
+	 * sort in descending order. Items are returned in their original order by default.
+	 */
+	sort?: string;
+	/**
+	 * Pipe-separated list of item fields to include (e.g. `revid|timestamp|comment`).
+	 * All fields are included by default.
+	 */
+	props?: string;
+}
+
+/**
+ * Added to task results when only some of the result items were returned.
+ */
+export interface ResultContinuation {
+	/**
+	 * Provide this as `continue` to get the next page of result items.
+	 */
+	continue?: string;
+}
+
+/**
+ * Request body sent to task callback URLs.
+ */
+export interface TaskCallbackInformation extends TaskInformation {
+	/**
+	 * The path where the result of the task can be retrieved.
+	 */
+	location: string;
 }
 
 /**
@@ -21,9 +152,30 @@ export interface TaskInformation {
  * the finished product (with GET) when polling reports that the task is
  * complete. This allows asynchronous background tasks to be run without
  * holding a connection open (which would otherwise be killed by timeout).
+ *
+ * Running tasks are kept in memory. Snapshots of all tasks are saved into the
+ * task store, which is where tasks are looked up once they are no longer held
+ * by this process (e.g. after a restart).
  */
 export default abstract class AsyncTaskController<O, R> extends Controller {
 
+	/**
+	 * How often a keep-alive comment is sent through open event streams.
+	 */
+	static readonly EVENTS_HEARTBEAT_INTERVAL = 15e3;
+	/**
+	 * The minimum interval between saves of a task's progress into the task store.
+	 * Saves for finished, cancelled, or failed tasks are never delayed.
+	 */
+	static readonly PROGRESS_SAVE_INTERVAL = 5e3;
+	/**
+	 * How far back (in milliseconds) from the high-water mark of an earlier result
+	 * a refresh looks for new data. This accounts for replication lag, since data
+	 * may appear on the replicas later than its timestamp. Overlapping data is
+	 * deduplicated when merging.
+	 */
+	static readonly REFRESH_OVERLAP = 600e3;
+
 	static readonly missingTask = new ErrorResponseBuilder()
 		.add( 'task-missing', {
 			text: 'The requested task ID could not be found',
@@ -34,15 +186,128 @@ export default abstract class AsyncTaskController<O, R> extends Controller {
 			text: 'The requested task ID has not yet finished',
 			key: 'apierror-task-unfinished'
 		} );
+	static readonly finishedTask = new ErrorResponseBuilder()
+		.add( 'task-finished', {
+			text: 'The requested task ID has already finished',
+			key: 'apierror-task-finished'
+		} );
+	static readonly remoteTask = new ErrorResponseBuilder()
+		.add( 'task-remote', {
+			text: 'The requested task ID is being run by another instance',
+			key: 'apierror-task-remote'
+		} );
+	static readonly cancelledTask = new ErrorResponseBuilder()
+		.add( 'task-cancelled', {
+			text: 'The requested task ID was cancelled',
+			key: 'apierror-task-cancelled'
+		} );
 
+	static readonly invalidSort = new ErrorResponseBuilder()
+		.add( 'invalid-sort', {
+			text: 'The requested sort field is not supported for this result',
+			key: 'apierror-invalid-sort'
+		} );
+	static readonly invalidLimit = new ErrorResponseBuilder()
+		.add( 'invalid-limit', {
+			text: 'The limit must be a positive integer',
+			key: 'apierror-invalid-limit'
+		} );
+	static readonly invalidContinue = new ErrorResponseBuilder()
+		.add( 'badcontinue', {
+			text: 'Invalid continue param. You should pass the original value returned ' +
+				'by the previous query.',
+			key: 'apierror-badcontinue'
+		} );
+	static readonly invalidRefresh = new ErrorResponseBuilder()
+		.add( 'refresh-invalid', {
+			text: 'The task to refresh could not be found, has not finished, or was ' +
+				'started with different options',
+			key: 'apierror-refresh-invalid'
+		} );
+	static readonly disallowedCallback = new ErrorResponseBuilder()
+		.add( 'callback-disallowed', {
+			text: 'The provided callback URL is not allowed',
+			key: 'apierror-callback-disallowed'
+		} );
+
+	/**
+	 * The store where task snapshots are saved. In-memory by default. Use
+	 * {@link AsyncTaskController.initializeStore} to set up the configured store.
+	 */
+	static store: AsyncTaskStore = new MemoryAsyncTaskStore();
+
+	/**
+	 * A list of tasks held by this process, mapped by task UUIDs. The task may
+	 * be running, or may have already stopped. Tasks are removed from this list
+	 * once they expire.
+	 *
+	 * @private
+	 */
+	private static taskLists = new Map<string, Map<string, AsyncTask<any>>>();
 	/**
-	 * A list of tasks mapped by task UUIDs. The task may be an in-progress or
-	 * completed AsyncTask, or an Error class, if the task execution experienced
-	 * an uncaught promise rejection.
+	 * Request deduplicators for each task list.
 	 *
 	 * @private
 	 */
-	private static taskLists = new Map<string, Map<string, AsyncTask<any> | Error>>();
+	private static deduplicators = new Map<string, TaskDeduplicator<any>>();
+
+	/**
+	 * Sets up the task store and starts purging expired tasks in the background.
+	 * The task store is chosen with the `DISPATCH_TASK_STORE` environment variable:
+	 * - `memory` (default) – tasks are kept in memory and lost on restart
+	 * - `toolsdb` – tasks are kept in the tool's ToolsDB database
+	 */
+	static async initializeStore(): Promise<void> {
+		switch ( process.env.DISPATCH_TASK_STORE ?? 'memory' ) {
+			case 'memory':
+				AsyncTaskController.store = new MemoryAsyncTaskStore();
+				break;
+			case 'toolsdb':
+				AsyncTaskController.store = new ToolsDBAsyncTaskStore();
+				break;
+			default:
+				throw new Error( `Unknown task store: ${ process.env.DISPATCH_TASK_STORE }` );
+		}
+		Log.info( `Using ${ AsyncTaskController.store.constructor.name } for tasks.` );
+		await AsyncTaskController.store.init();
+		AsyncTaskController.store.startPurging();
+		setInterval(
+			() => AsyncTaskController.sweepAllTasks(),
+			AsyncTaskStore.PURGE_INTERVAL
+		).unref();
+	}
+
+	/**
+	 * Clean out expired tasks held by this process, for all task lists.
+	 */
+	static sweepAllTasks(): void {
+		for ( const tasks of AsyncTaskController.taskLists.values() ) {
+			for ( const [ id, task ] of tasks.entries() ) {
+				if ( Date.now() - task.expireTime > 0 ) {
+					tasks.delete( id );
+				}
+			}
+		}
+	}
+
+	/**
+	 * The key of the result object which holds the list of result items (e.g.
+	 * `revisions`). Required for partial results.
+	 *
+	 * @protected
+	 */
+	protected readonly resultItemsKey: string = null;
+
+	/**
+	 * Fields which result items can be sorted by, mapped to functions which get the
+	 * value to sort with from an item. Items without a value are sorted last.
+	 *
+	 * @protected
+	 */
+	protected readonly resultSortFields: Record<string, ( item: any ) => number | string> = {
+		timestamp: ( item ) => item.timestamp,
+		diffsize: ( item ) => item.diffsize
+	};
 
 	/**
 	 * @protected
@@ -53,40 +318,164 @@ export default abstract class AsyncTaskController<O, R> extends Controller {
 	/**
 	 * @return the tasks list for this asynchronous task controller.
 	 */
-	private get tasks(): Map<string, AsyncTask<R> | Error> {
+	private get tasks(): Map<string, AsyncTask<R>> {
 		const tli = this.getTaskListId();
 		if ( !AsyncTaskController.taskLists.has( tli ) ) {
 			AsyncTaskController.taskLists.set( tli, new Map() );
 		}
 		return AsyncTaskController.taskLists.get( tli );
 	}
+
 	/**
-	 * Run a task with the given options.
+	 * @return the request deduplicator for this asynchronous task controller.
+	 */
+	private get deduplicator(): TaskDeduplicator<R> {
+		const tli = this.getTaskListId();
+		if ( !AsyncTaskController.deduplicators.has( tli ) ) {
+			AsyncTaskController.deduplicators.set( tli, new TaskDeduplicator() );
+		}
+		return AsyncTaskController.deduplicators.get( tli );
+	}
+
+	/**
+	 * Run a task with the given options. The task is placed in the global work
+	 * queue, and is processed once the {@link TaskScheduler} allows it to run.
 	 *
 	 * @param options Options to run the task with.
+	 * @param scheduling Information used to decide when the task may run.
+	 * @param start The key of the request, and the name of the only user who may
+	 *   access the task, if any. Tasks with an owner are not saved into the task store.
 	 * @return The ID of the task
 	 */
-	runTask( options: O ): AsyncTask<R> {
+	runTask(
+		options: O,
+		scheduling: TaskSchedulingInfo = {},
+		start: Partial<Pick<TaskStartOptions, 'key' | 'owner'>> = {}
+	): AsyncTask<R> {
 		const task = new AsyncTask<R>();
+		task.key = start.key ?? null;
+		task.owner = start.owner ?? null;
 		this.tasks.set( task.id, task );
-		this.process( options, task )
+		TaskScheduler.i.schedule( task, scheduling, () => this.process( options, task )
 			.catch( ( e ) => {
+				if ( task.cancelled ) {
+					// Errors thrown by aborted work are expected here.
+					Log.debug( `Task ${task.id} was cancelled.` );
+					return;
+				}
 				Log.error( `Error occurred while completing task ${task.id}.` );
 				Log.error( task );
-				if ( e instanceof Error ) {
-					this.tasks.set( task.id, e );
-				} else {
-					this.tasks.set( task.id, new Error( String( e ) ) );
-				}
-			} );
+				task.fail( e instanceof Error ? e : new Error( String( e ) ) );
+			} )
+		);
+		if ( task.owner == null ) {
+			this.persistTask( task );
+		}
 		return task;
 	}
 
+	/**
+	 * Save snapshots of a task into the task store for as long as the task
+	 * is running. Snapshots are saved one after another, so that an earlier
+	 * snapshot never replaces a later one.
+	 *
+	 * @param task The task to persist
+	 * @private
+	 */
+	private persistTask( task: AsyncTask<R> ) {
+		const list = this.getTaskListId();
+		let lastSave = 0;
+		let saving = Promise.resolve();
+		const save = () => {
+			lastSave = Date.now();
+			const record = task.toRecord( list );
+			saving = saving
+				.then( () => AsyncTaskController.store.save( record ) )
+				.catch( ( e ) => {
+					Log.warn( `Failed to save task ${task.id}.`, { error: e } );
+				} );
+		};
+
+		const onProgress = () => {
+			if ( Date.now() - lastSave >= AsyncTaskController.PROGRESS_SAVE_INTERVAL ) {
+				save();
+			}
+		};
+		const onStop = () => {
+			task.off( 'progress', onProgress );
+			save();
+		};
+		task.on( 'progress', onProgress );
+		task.once( 'start', save );
+		task.once( 'finish', onStop );
+		task.once( 'cancel', onStop );
+		task.once( 'fail', onStop );
+		save();
+	}
+
+	/**
+	 * Check if a callback URL can be used. Sets the response status if it cannot.
+	 *
+	 * @param req The request object
+	 * @param callback The callback URL provided by the client, if any
+	 * @return An error if the callback URL cannot be used, `null` otherwise
+	 */
+	checkCallback( req: express.Request, callback?: string ): ErrorResponse | null {
+		if ( callback == null || TaskCallbackDispatcher.i.isAllowed( callback ) ) {
+			return null;
+		}
+		this.setStatus( 400 );
+		return AsyncTaskController.disallowedCallback.build(
+			req.params.errorformat as ErrorFormat
+		);
+	}
+
+	/**
+	 * Send task information to a callback URL once the task finishes or fails.
+	 * If the task has already finished or failed, the callback is sent immediately.
+	 * Nothing is sent for cancelled tasks. The callback URL must have been checked
+	 * with {@link checkCallback} beforehand.
+	 *
+	 * @param req The request which started the task (`POST /`)
+	 * @param id The ID of the task to watch
+	 * @param callback The callback URL provided by the client, if any
+	 */
+	registerCallback( req: express.Request, id: string, callback?: string ): void {
+		const task = this.tasks.get( id );
+		if ( callback == null || !task ) {
+			return;
+		}
+		const list = this.getTaskListId();
+		const location = req.originalUrl.split( '?' )[ 0 ].replace( /\/?$/, `/${ task.id }` );
+		const send = () => {
+			const payload: TaskCallbackInformation = {
+				...this.getTaskInformation( task.toRecord( list ) ),
+				location
+			};
+			return TaskCallbackDispatcher.i.deliver( callback, payload );
+		};
+
+		switch ( task.state ) {
+			case 'finished':
+			case 'failed':
+				send();
+				break;
+			case 'queued':
+			case 'running':
+				task.once( 'finish', send );
+				task.once( 'fail', send );
+				break;
+		}
+	}
+
 	/**
 	 * The processing function for this task. This task is provided an AsyncTask,
 	 * which it must update throughout its execution. Failing to update the
 	 * attached task tracker will cause the task to remain in limbo forever.
 	 *
+	 * The task's `signal` is aborted when the task is cancelled. It should be
+	 * passed on to anything which performs work for the task.
+	 *
 	 * @param options The options to run the task with
 	 * @param task The task tracker
 	 * @protected
@@ -98,7 +487,7 @@ export default abstract class AsyncTaskController<O, R> extends Controller {
 	 */
 	sweepTasks(): void {
 		for ( const [ id, task ] of this.tasks.entries() ) {
-			if ( task instanceof Error || Date.now() - task.expireTime > 0 ) {
+			if ( Date.now() - task.expireTime > 0 ) {
 				this.tasks.delete( id );
 			}
 		}
@@ -120,7 +509,7 @@ export default abstract class AsyncTaskController<O, R> extends Controller {
 	}
 
 	/**
-	 * Check if a given task exists
+	 * Check if a given task is held by this process.
 	 *
 	 * @param id The ID of the task
 	 * @return If the task exists
@@ -136,8 +525,7 @@ export default abstract class AsyncTaskController<O, R> extends Controller {
 	 * @return If the task has expired
 	 */
 	isTaskExpired( id: string ): boolean {
-		const task = this.tasks.get( id );
-		return task instanceof Error ? true : Date.now() - task.expireTime > 0;
+		return Date.now() - this.tasks.get( id ).expireTime > 0;
 	}
 
 	/**
@@ -148,18 +536,37 @@ export default abstract class AsyncTaskController<O, R> extends Controller {
 	 */
 	getTaskProgress( id: string ): number {
 		const task = this.tasks.get( id );
-		return task instanceof Error ? 1 : task.progress;
+		return task.state === 'failed' ? 1 : task.progress;
 	}
 
 	/**
 	 * Get the finished status of the task.
 	 *
 	 * @param id
-	 * @return If the task is finished
+	 * @return If the task is no longer running
 	 */
 	getTaskFinished( id: string ): boolean {
-		const task = this.tasks.get( id );
-		return task instanceof Error ? true : task.finished;
+		return this.tasks.get( id ).finished;
+	}
+
+	/**
+	 * Get the state of the task.
+	 *
+	 * @param id
+	 * @return The current state of the task
+	 */
+	getTaskState( id: string ): AsyncTaskState {
+		return this.tasks.get( id ).state;
+	}
+
+	/**
+	 * Check if a task has been cancelled.
+	 *
+	 * @param id The ID of the task
+	 * @return If the task exists and was cancelled
+	 */
+	isTaskCancelled( id: string ): boolean {
+		return this.isTaskExisting( id ) && this.getTaskState( id ) === 'cancelled';
 	}
 
 	/**
@@ -170,7 +577,135 @@ export default abstract class AsyncTaskController<O, R> extends Controller {
 	 */
 	getTaskResult( id: string ): R {
 		const task = this.tasks.get( id );
-		return task instanceof Error ? null : task.result;
+		return task.state === 'finished' ? task.result : null;
+	}
+
+	/**
+	 * Get a snapshot of a task. Tasks held by this process are always up-to-date.
+	 * Otherwise, the task is looked up in the task store.
+	 *
+	 * @param id The ID of the task
+	 * @return The task record, or `null` if the task could not be found or has expired.
+	 */
+	async getTaskRecord( id: string ): Promise<AsyncTaskRecord<R> | null> {
+		if ( this.isTaskExisting( id ) ) {
+			return this.tasks.get( id ).toRecord( this.getTaskListId() );
+		}
+		const record = await AsyncTaskController.store.get( this.getTaskListId(), id );
+		if ( record == null || Date.now() - record.expireTime > 0 ) {
+			return null;
+		}
+		return record;
+	}
+
+	/**
+	 * Get a snapshot of a task for a request. Tasks with an owner can only be
+	 * accessed by that user, and are treated as missing for everyone else.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task
+	 * @return The task record, or `null` if the task could not be found, has expired,
+	 * or cannot be accessed by the requester.
+	 */
+	async getRequestedTaskRecord(
+		req: express.Request,
+		id: string
+	): Promise<AsyncTaskRecord<R> | null> {
+		const record = await this.getTaskRecord( id );
+		if ( record?.owner == null ) {
+			return record;
+		}
+		const session = await optionalAuthentication( req );
+		return session?.username === record.owner ? record : null;
+	}
+
+	/**
+	 * Get the result of an earlier task, to be refreshed by a new task. The earlier
+	 * task must have been started with the same options, i.e. every value in `key`
+	 * must match the key of the earlier task.
+	 *
+	 * @param id The ID of the earlier task
+	 * @param key The key of the refreshing request, without the ID of the earlier task
+	 * @return The result of the task, or `null` if the task could not be found, has
+	 * not finished, or was started with different options.
+	 */
+	async getRefreshResult( id: string, key: Record<string, any> ): Promise<R | null> {
+		const record = await this.getTaskRecord( id );
+		if ( record?.state !== 'finished' || record.key == null ) {
+			return null;
+		}
+		const matches = Object.keys( key ).every(
+			( k ) => JSON.stringify( key[ k ] ) === JSON.stringify( record.key[ k ] )
+		);
+		return matches ? record.result : null;
+	}
+
+	/**
+	 * Get the time from which a refresh should look for new data.
+	 *
+	 * @param curtimestamp The high-water mark of the earlier result
+	 * @return The time to look for new data from, or `null` if a full run is needed
+	 */
+	static getRefreshStart( curtimestamp?: string ): Date | null {
+		const time = Date.parse( curtimestamp );
+		return isNaN( time ) ? null : new Date( time - AsyncTaskController.REFRESH_OVERLAP );
+	}
+
+	/**
+	 * Convert a task record into task information.
+	 *
+	 * @param record The record to convert
+	 * @return Task information
+	 */
+	getTaskInformation( record: AsyncTaskRecord<R> ): TaskInformation {
+		const task = this.tasks.get( record.id );
+		const queuePosition = record.state === 'queued' && task ?
+			TaskScheduler.i.getQueuePosition( task ) : null;
+		return {
+			id: record.id,
+			progress: record.state === 'failed' ? 1 : record.progress,
+			finished: record.state !== 'running' && record.state !== 'queued',
+			state: record.state,
+			...( queuePosition != null ? { queuePosition } : {} ),
+			...( record.phase != null ? { phase: record.phase } : {} ),
+			...( record.status != null ? { status: record.status } : {} ),
+			...( record.eta != null && record.state === 'running' ?
+				{ eta: new Date( record.eta ).toISOString() } : {} )
+		};
+	}
+
+	/**
+	 * Handles task start requests (`POST /`). Identical requests share the same task:
+	 * the request joins a task which is still running, or reuses the result of a
+	 * recently-finished task. See {@link TaskDeduplicator}. If a new task was started,
+	 * the response status is set to `202 Accepted`.
+	 *
+	 * @param req The request object
+	 * @param options Options to run the task with
+	 * @param start Options for starting the task
+	 * @return Task information
+	 */
+	async handleStartRequest(
+		req: express.Request,
+		options: O,
+		start: TaskStartOptions
+	): Promise<TaskInformation> {
+		const { task, created, stale } = this.deduplicator.resolve(
+			start.key,
+			() => this.runTask( options, {
+				wiki: start.wiki,
+				client: clientIdentifier( req )
+			}, start ),
+			start.bypassCache
+		);
+		this.registerCallback( req, task.id, start.callback );
+		if ( created ) {
+			this.setStatus( 202 );
+			this.setHeader( 'Location', `${ task.id }/progress` );
+		}
+
+		const information = ( await this.handleProgressRequest( req, task.id ) ) as TaskInformation;
+		return stale ? { ...information, stale } : information;
 	}
 
 	/**
@@ -182,53 +717,317 @@ export default abstract class AsyncTaskController<O, R> extends Controller {
 	 * @param id The ID of the task
 	 * @return Task information
 	 */
-	handleProgressRequest( req: express.Request, id: string ): TaskInformation|ErrorResponse {
-		if ( !this.isTaskExisting( id ) ) {
+	async handleProgressRequest(
+		req: express.Request,
+		id: string
+	): Promise<TaskInformation|ErrorResponse> {
+		const record = await this.getRequestedTaskRecord( req, id );
+		if ( !record ) {
 			this.setStatus( 404 );
 			return AsyncTaskController.missingTask.build(
 				req.params.errorformat as ErrorFormat
 			);
 		}
-		const finished = this.getTaskFinished( id );
-		if ( finished ) {
+		if ( record.state === 'finished' ) {
 			this.setHeader( 'Location', '..' );
 		}
-		return {
-			id,
-			progress: this.getTaskProgress( id ),
-			finished: finished
-		};
+		return this.getTaskInformation( record );
 	}
 
 	/**
 	 * Handles result requests. Only handles the result GET request (`GET /:id`).
 	 *
+	 * If any result query parameters are provided, only the selected items of the
+	 * result are returned. When there are more items to return, a `continue` value
+	 * is included in the response. See {@link ResultQuery}.
+	 *
 	 * @param req The request object
 	 * @param id The ID of the task
+	 * @param query Parameters which select the parts of the result to return
 	 * @return The result of the task, an error otherwise
 	 */
-	handleResultRequest( req: express.Request, id: string ): R|ErrorResponse {
-		if ( !this.isTaskExisting( id ) ) {
+	async handleResultRequest(
+		req: express.Request,
+		id: string,
+		query: ResultQuery = {}
+	): Promise<R|ErrorResponse> {
+		const record = await this.getRequestedTaskRecord( req, id );
+		if ( !record ) {
 			this.setStatus( 404 );
 			return AsyncTaskController.missingTask.build(
 				req.params.errorformat as ErrorFormat
 			);
 		}
-		const task = this.tasks.get( id );
-		if ( task instanceof Error ) {
+		if ( record.state === 'failed' ) {
 			this.setStatus( 500 );
 			return new ErrorResponseBuilder()
 				.add( 'task-uncaught-generic', {
-					text: 'Uncaught error: ' + task.message,
+					text: 'Uncaught error: ' + record.error,
 					key: 'apierror-task-uncaught-generic'
 				} ).build();
-		} else if ( !task.finished ) {
+		} else if ( record.state === 'cancelled' ) {
+			this.setStatus( 410 );
+			return AsyncTaskController.cancelledTask.build(
+				req.params.errorformat as ErrorFormat
+			);
+		} else if ( record.state !== 'finished' ) {
 			this.setStatus( 409 );
 			return AsyncTaskController.unfinishedTask.build(
 				req.params.errorformat as ErrorFormat
 			);
 		}
-		return this.getTaskResult( id );
+		return this.selectResultItems( req, record.result, query );
+	}
+
+	/**
+	 * Select items from a task result using result query parameters.
+	 *
+	 * @param req The request object
+	 * @param result The full result of the task
+	 * @param query Parameters which select the parts of the result to return
+	 * @return The selected parts of the result, an error otherwise
+	 */
+	selectResultItems( req: express.Request, result: R, query: ResultQuery ): R|ErrorResponse {
+		const items: any[] = result?.[ this.resultItemsKey ];
+		if (
+			!Array.isArray( items ) ||
+			( query.limit == null && query.continue == null &&
+				query.sort == null && query.props == null )
+		) {
+			return result;
+		}
+
+		if ( query.limit != null && ( !Number.isInteger( query.limit ) || query.limit < 1 ) ) {
+			this.setStatus( 400 );
+			return AsyncTaskController.invalidLimit.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+
+		let selected = items;
+		if ( query.sort ) {
+			const descending = query.sort.startsWith( '-' );
+			const field = descending ? query.sort.slice( 1 ) : query.sort;
+			if ( !Object.prototype.hasOwnProperty.call( this.resultSortFields, field ) ) {
+				this.setStatus( 400 );
+				return AsyncTaskController.invalidSort.build(
+					req.params.errorformat as ErrorFormat
+				);
+			}
+			const getValue = this.resultSortFields[ field ];
+			selected = selected.slice().sort( ( a, b ) => {
+				const aValue = getValue( a );
+				const bValue = getValue( b );
+				if ( aValue == null || bValue == null ) {
+					return ( aValue == null ? 1 : 0 ) - ( bValue == null ? 1 : 0 );
+				}
+				const order = aValue < bValue ? -1 : ( aValue > bValue ? 1 : 0 );
+				return descending ? -order : order;
+			} );
+		}
+
+		const offset = query.continue != null ? +query.continue : 0;
+		if ( !Number.isInteger( offset ) || offset < 0 ) {
+			this.setStatus( 400 );
+			return AsyncTaskController.invalidContinue.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+		const end = query.limit != null ? offset + query.limit : selected.length;
+		selected = selected.slice( offset, end );
+
+		if ( query.props != null ) {
+			const props = query.props.split( '|' ).map( ( p ) => p.trim() );
+			selected = selected.map( ( item ) => Object.fromEntries(
+				props
+					.filter( ( p ) => Object.prototype.hasOwnProperty.call( item, p ) )
+					.map( ( p ) => [ p, item[ p ] ] )
+			) );
+		}
+
+		return {
+			...result,
+			[ this.resultItemsKey ]: selected,
+			...( end < items.length ? { continue: `${ end }` } : {} )
+		};
+	}
+
+	/**
+	 * Handles partial result requests. Only handles the partial result GET request
+	 * (`GET /:id/partial`). Returns the result items produced by the task after
+	 * the `since` cursor. Once the task has finished, the items are taken from
+	 * the final result.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task
+	 * @param since The cursor returned by the previous request, or 0 to get all items
+	 * @return The partial result, an error otherwise
+	 */
+	async handlePartialRequest(
+		req: express.Request,
+		id: string,
+		since: number = 0
+	): Promise<PartialResult|ErrorResponse> {
+		const record = await this.getRequestedTaskRecord( req, id );
+		if ( !record ) {
+			this.setStatus( 404 );
+			return AsyncTaskController.missingTask.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+
+		let items: unknown[];
+		if ( record.state === 'finished' ) {
+			items = record.result?.[ this.resultItemsKey ] ?? [];
+		} else {
+			items = this.tasks.get( id )?.partial ?? [];
+		}
+		const start = Math.max( 0, Math.floor( since ) || 0 );
+		return {
+			items: items.slice( start ),
+			cursor: Math.max( start, items.length ),
+			finished: record.state !== 'running' && record.state !== 'queued',
+			state: record.state
+		};
+	}
+
+	/**
+	 * Handles cancellation requests. Only handles the cancel DELETE request
+	 * (`DELETE /:id`). Cancelling a task which was already cancelled does nothing.
+	 * Tasks run by another instance cannot be cancelled.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task
+	 * @return Task information, an error otherwise
+	 */
+	async handleCancelRequest(
+		req: express.Request,
+		id: string
+	): Promise<TaskInformation|ErrorResponse> {
+		const record = await this.getRequestedTaskRecord( req, id );
+		if ( !record ) {
+			this.setStatus( 404 );
+			return AsyncTaskController.missingTask.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+		if ( record.state === 'finished' || record.state === 'failed' ) {
+			this.setStatus( 409 );
+			return AsyncTaskController.finishedTask.build(
+				req.params.errorformat as ErrorFormat
+			);
+		} else if ( record.state !== 'cancelled' && !this.isTaskExisting( id ) ) {
+			this.setStatus( 409 );
+			return AsyncTaskController.remoteTask.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+		this.tasks.get( id )?.cancel();
+		return this.handleProgressRequest( req, id );
+	}
+
+	/**
+	 * Handles event stream requests. Only handles the event stream GET request
+	 * (`GET /:id/events`). This responds with a `text/event-stream`
+	 * ([Server-Sent Events](https://html.spec.whatwg.org/multipage/server-sent-events.html))
+	 * which sends the following events:
+	 * - `progress` – task information, sent when connected, when the task leaves the
+	 *   queue, and on each progress update
+	 * - `finished` – task information and the result `location`, once the task finishes
+	 * - `cancelled` – task information, if the task is cancelled
+	 * - `error` – the error response, if the task experiences an uncaught error
+	 *
+	 * The stream is closed by the server after the final event. The response is
+	 * written directly, so nothing is returned if the task exists. Unfinished tasks
+	 * run by another instance cannot be streamed.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task
+	 * @return An error, if the task does not exist or is run by another instance
+	 */
+	async handleEventsRequest( req: express.Request, id: string ): Promise<ErrorResponse|void> {
+		const record = await this.getRequestedTaskRecord( req, id );
+		if ( !record ) {
+			this.setStatus( 404 );
+			return AsyncTaskController.missingTask.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+		const running = record.state === 'running' || record.state === 'queued';
+		if ( running && !this.isTaskExisting( id ) ) {
+			this.setStatus( 409 );
+			return AsyncTaskController.remoteTask.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+
+		const res = req.res;
+		res.status( 200 );
+		res.set( {
+			'Content-Type': 'text/event-stream',
+			// `no-transform` prevents the compression middleware from buffering events.
+			'Cache-Control': 'no-cache, no-transform',
+			Connection: 'keep-alive',
+			'X-Accel-Buffering': 'no'
+		} );
+		res.flushHeaders();
+
+		const location = req.originalUrl.split( '?' )[ 0 ].replace( /\/events\/?$/, '' );
+		const send = ( event: string, data: any ) => {
+			res.write( `event: ${ event }\ndata: ${ JSON.stringify( data ) }\n\n` );
+		};
+		const sendFinal = ( finalRecord: AsyncTaskRecord<R> ) => {
+			const info = this.getTaskInformation( finalRecord );
+			switch ( finalRecord.state ) {
+				case 'finished':
+					send( 'finished', { ...info, location } );
+					break;
+				case 'cancelled':
+					send( 'cancelled', info );
+					break;
+				case 'failed':
+					send( 'error', new ErrorResponseBuilder()
+						.add( 'task-uncaught-generic', {
+							text: 'Uncaught error: ' + finalRecord.error,
+							key: 'apierror-task-uncaught-generic'
+						} ).build( req.params.errorformat as ErrorFormat ) );
+					break;
+			}
+			res.end();
+		};
+
+		send( 'progress', this.getTaskInformation( record ) );
+		if ( !running ) {
+			sendFinal( record );
+			return;
+		}
+
+		const task = this.tasks.get( id );
+
+		const list = this.getTaskListId();
+		const heartbeat = setInterval( () => {
+			res.write( ': keep-alive\n\n' );
+		}, AsyncTaskController.EVENTS_HEARTBEAT_INTERVAL );
+		const onProgress = () => send(
+			'progress', this.getTaskInformation( task.toRecord( list ) )
+		);
+		const onStop = () => sendFinal( task.toRecord( list ) );
+		const cleanup = () => {
+			clearInterval( heartbeat );
+			task.off( 'start', onProgress );
+			task.off( 'progress', onProgress );
+			task.off( 'finish', onStop );
+			task.off( 'cancel', onStop );
+			task.off( 'fail', onStop );
+		};
+
+		task.on( 'start', onProgress );
+		task.on( 'progress', onProgress );
+		task.on( 'finish', onStop );
+		task.on( 'cancel', onStop );
+		task.on( 'fail', onStop );
+		// Fired when the stream has ended, or when the client disconnects.
+		res.on( 'close', cleanup );
 	}
 
 }
@@ -0,0 +1,124 @@
+import { AsyncTaskState } from './AsyncTask';
+import Log from '../../util/Log';
+import backgroundInterval from '../../util/func/backgroundInterval';
+
+/**
+ * A snapshot of an asynchronous task, as kept by an {@link AsyncTaskStore}.
+ */
+export interface AsyncTaskRecord<R = any> {
+	/**
+	 * The ID of the task list (controller) which this task belongs to.
+	 */
+	list: string;
+	id: string;
+	state: AsyncTaskState;
+	progress: number;
+	/**
+	 * The ID of the task's current phase, if it declared phases.
+	 */
+	phase?: string;
+	/**
+	 * The task's status message, if any.
+	 */
+	status?: string;
+	/**
+	 * The estimated time (as a UNIX timestamp in milliseconds) when the task will
+	 * finish, if available.
+	 */
+	eta?: number;
+	/**
+	 * The result of the task. Only available on finished tasks.
+	 */
+	result?: R;
+	/**
+	 * The error message. Only available on failed tasks.
+	 */
+	error?: string;
+	/**
+	 * The name of the only user who may access the task, if any. Tasks with an
+	 * owner are never saved into a store.
+	 */
+	owner?: string;
+	/**
+	 * The options which identify the request that started the task, if any.
+	 */
+	key?: Record<string, any>;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) when this task expires.
+	 */
+	expireTime: number;
+}
+
+/**
+ * Stores the state and results of asynchronous tasks. This allows task data to
+ * be kept outside of the process, such that results can still be retrieved
+ * after a restart.
+ */
+export default abstract class AsyncTaskStore {
+
+	// Purge expired tasks every 5 minutes.
+	static readonly PURGE_INTERVAL = 300e3;
+
+	private purgeInterval: NodeJS.Timeout;
+
+	/**
+	 * Prepare the store for use. Called once, before the store is used.
+	 */
+	async init(): Promise<void> {
+		/* ignored */
+	}
+
+	/**
+	 * Get a task from the store.
+	 *
+	 * @param list The ID of the task list
+	 * @param id The ID of the task
+	 * @return The task record, or `null` if the task could not be found.
+	 */
+	abstract get( list: string, id: string ): Promise<AsyncTaskRecord | null>;
+
+	/**
+	 * Save a task into the store. Replaces any existing record for the same task.
+	 *
+	 * @param record The task record to save
+	 */
+	abstract save( record: AsyncTaskRecord ): Promise<void>;
+
+	/**
+	 * Remove a task from the store.
+	 *
+	 * @param list The ID of the task list
+	 * @param id The ID of the task
+	 */
+	abstract delete( list: string, id: string ): Promise<void>;
+
+	/**
+	 * Remove all tasks which have expired by the given time.
+	 *
+	 * @param now The current time, as a UNIX timestamp in milliseconds.
+	 * @return The number of removed tasks
+	 */
+	abstract purge( now: number ): Promise<number>;
+
+	/**
+	 * Start purging expired tasks in the background.
+	 */
+	startPurging() {
+		if ( this.purgeInterval ) {
+			return;
+		}
+		this.purgeInterval = backgroundInterval( async () => {
+			const count = await this.purge( Date.now() );
+			Log.debug( `Purged ${count} expired tasks.` );
+		}, AsyncTaskStore.PURGE_INTERVAL, 'Failed to purge expired tasks.' );
+	}
+
+	/**
+	 * Stop purging expired tasks in the background.
+	 */
+	stopPurging() {
+		clearInterval( this.purgeInterval );
+		this.purgeInterval = null;
+	}
+
+}
@@ -0,0 +1,56 @@
+import AsyncTaskStore, { AsyncTaskRecord } from './AsyncTaskStore';
+
+/**
+ * Keeps task records in memory. Task records are lost when the process exits.
+ * This is the default task store.
+ */
+export default class MemoryAsyncTaskStore extends AsyncTaskStore {
+
+	/**
+	 * Task records, mapped by task list ID, then by task ID.
+	 *
+	 * @private
+	 */
+	private readonly taskLists = new Map<string, Map<string, AsyncTaskRecord>>();
+
+	/**
+	 * @inheritDoc
+	 */
+	async get( list: string, id: string ): Promise<AsyncTaskRecord | null> {
+		return this.taskLists.get( list )?.get( id ) ?? null;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async save( record: AsyncTaskRecord ): Promise<void> {
+		if ( !this.taskLists.has( record.list ) ) {
+			this.taskLists.set( record.list, new Map() );
+		}
+		this.taskLists.get( record.list ).set( record.id, record );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async delete( list: string, id: string ): Promise<void> {
+		this.taskLists.get( list )?.delete( id );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async purge( now: number ): Promise<number> {
+		let count = 0;
+		for ( const tasks of this.taskLists.values() ) {
+			for ( const [ id, record ] of tasks.entries() ) {
+				if ( now - record.expireTime > 0 ) {
+					tasks.delete( id );
+					count++;
+				}
+			}
+		}
+		return count;
+	}
+
+}
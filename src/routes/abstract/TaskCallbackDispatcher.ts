@@ -0,0 +1,155 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import Log from '../../util/Log';
+
+/**
+ * Delivers completion callbacks (webhooks) for asynchronous tasks.
+ *
+ * Callback URLs must match an entry of the allowlist, set with the
+ * `DISPATCH_CALLBACK_ALLOWLIST` environment variable. This is a comma-separated list
+ * of hostnames. Entries starting with a dot (e.g. `.toolforge.org`) match all
+ * subdomains of that hostname. Callbacks are disabled if the allowlist is empty.
+ *
+ * Each callback is a JSON POST request. If `DISPATCH_CALLBACK_SECRET` is set, the
+ * request body is signed with HMAC-SHA256, and the signature is sent in the
+ * `X-Dispatch-Signature` header as `sha256=<hex digest>`.
+ */
+export default class TaskCallbackDispatcher {
+
+	/**
+	 * Singleton instance for this class.
+	 */
+	public static readonly i = new TaskCallbackDispatcher(
+		( process.env.DISPATCH_CALLBACK_ALLOWLIST ?? '' )
+			.split( ',' )
+			.map( ( host ) => host.trim().toLowerCase() )
+			.filter( ( host ) => host.length > 0 ),
+		process.env.DISPATCH_CALLBACK_SECRET
+	);
+
+	/**
+	 * The maximum number of delivery attempts for a single callback.
+	 */
+	static readonly MAX_ATTEMPTS = 6;
+	/**
+	 * The delay before the first retry. This is doubled on every retry.
+	 */
+	static readonly RETRY_DELAY = 1e3;
+	/**
+	 * How long to wait for the callback destination to respond.
+	 */
+	static readonly REQUEST_TIMEOUT = 10e3;
+
+	/**
+	 * @param allowlist Hostnames which callbacks may be sent to
+	 * @param secret The secret used to sign callback bodies
+	 */
+	constructor(
+		readonly allowlist: string[],
+		private readonly secret?: string
+	) {
+		/* ignored */
+	}
+
+	/**
+	 * Check if a callback URL may be used. Only HTTPS URLs (or HTTP URLs, in
+	 * development) without credentials whose hostname is on the allowlist are allowed.
+	 *
+	 * @param url The callback URL
+	 * @return `true` if callbacks can be sent to the URL
+	 */
+	isAllowed( url: string ): boolean {
+		let parsed: URL;
+		try {
+			parsed = new URL( url );
+		} catch ( e ) {
+			return false;
+		}
+
+		if (
+			parsed.protocol !== 'https:' &&
+			!( parsed.protocol === 'http:' && process.env.NODE_ENV === 'development' )
+		) {
+			return false;
+		}
+		if ( parsed.username || parsed.password ) {
+			return false;
+		}
+
+		const hostname = parsed.hostname.toLowerCase();
+		return this.allowlist.some( ( entry ) => entry.startsWith( '.' ) ?
+			hostname.endsWith( entry ) || hostname === entry.slice( 1 ) :
+			hostname === entry
+		);
+	}
+
+	/**
+	 * Sign a callback body.
+	 *
+	 * @param body The request body
+	 * @return The value of the signature header, or `null` if no secret was set.
+	 */
+	sign( body: string ): string | null {
+		if ( !this.secret ) {
+			return null;
+		}
+		return 'sha256=' + crypto.createHmac( 'sha256', this.secret )
+			.update( body )
+			.digest( 'hex' );
+	}
+
+	/**
+	 * Send a callback. Failed deliveries (network errors, timeouts, `408`, `429`,
+	 * and `5xx` responses) are retried with exponential backoff. Redirects are
+	 * never followed. This never rejects; failures are logged instead.
+	 *
+	 * @param url The callback URL. Must have been checked with {@link isAllowed}.
+	 * @param payload The data to send
+	 */
+	async deliver( url: string, payload: any ): Promise<void> {
+		const body = JSON.stringify( payload );
+		const signature = this.sign( body );
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json'
+		};
+		if ( signature ) {
+			headers[ 'X-Dispatch-Signature' ] = signature;
+		}
+
+		for ( let attempt = 1; attempt <= TaskCallbackDispatcher.MAX_ATTEMPTS; attempt++ ) {
+			let retry: boolean;
+			try {
+				const response = await axios.post( url, body, {
+					headers,
+					maxRedirects: 0,
+					timeout: TaskCallbackDispatcher.REQUEST_TIMEOUT,
+					responseType: 'text',
+					validateStatus: () => true
+				} );
+				if ( response.status >= 200 && response.status < 300 ) {
+					Log.debug( `Delivered callback to ${ url }.`, { attempt } );
+					return;
+				}
+				retry = response.status >= 500 ||
+					response.status === 408 || response.status === 429;
+				Log.debug( `Callback to ${ url } returned HTTP ${ response.status }.`, {
+					attempt
+				} );
+			} catch ( e ) {
+				retry = true;
+				Log.debug( `Callback to ${ url } failed.`, { attempt, error: e.message } );
+			}
+
+			if ( !retry ) {
+				break;
+			}
+			if ( attempt < TaskCallbackDispatcher.MAX_ATTEMPTS ) {
+				await new Promise( ( resolve ) => setTimeout(
+					resolve, TaskCallbackDispatcher.RETRY_DELAY * 2 ** ( attempt - 1 )
+				) );
+			}
+		}
+		Log.warn( `Gave up on delivering callback to ${ url }.` );
+	}
+
+}
@@ -0,0 +1,190 @@
+import Cache from 'stale-lru-cache';
+import { AsyncTask } from './AsyncTask';
+import Log from '../../util/Log';
+
+/**
+ * The task which a request was resolved to.
+ */
+export interface DeduplicatedTask<R> {
+	task: AsyncTask<R>;
+	/**
+	 * `true` if a new task was started for this request, `false` if the request
+	 * joined an existing task.
+	 */
+	created: boolean;
+	/**
+	 * `true` if the task's result is stale. A fresh task is running in the background,
+	 * and will be used for requests once it finishes.
+	 */
+	stale: boolean;
+}
+
+/**
+ * Deduplicates identical task requests. Requests are identified by their options,
+ * which are normalized such that equivalent options (e.g. with object keys or set-like
+ * arrays in a different order) are treated as the same request.
+ *
+ * - Requests which match a task that is still queued or running join that task.
+ * - Requests which match a finished task use that task's result, as long as it is
+ *   fresh (see {@link MAX_AGE}). Freshness is measured from when the task finished.
+ * - Requests which match a stale task (see {@link STALE_WHILE_REVALIDATE}) use the
+ *   stale result, but a fresh task is started in the background. Once it finishes,
+ *   it replaces the stale task.
+ *
+ * Cancelled and failed tasks are never reused.
+ */
+export default class TaskDeduplicator<R> {
+
+	/**
+	 * How long (in seconds) after finishing the result of a task is considered fresh.
+	 */
+	static readonly MAX_AGE = 900;
+	/**
+	 * How long (in seconds) after becoming stale that the result of a task can still
+	 * be used while a fresh task runs in the background. Together with {@link MAX_AGE},
+	 * this should not exceed the time it takes for a task to expire.
+	 */
+	static readonly STALE_WHILE_REVALIDATE = 2700;
+
+	private readonly cache: Cache<string, AsyncTask<R>>;
+	private readonly revalidating = new Set<string>();
+
+	/**
+	 * @param maxSize The maximum number of tasks to keep track of
+	 */
+	constructor( maxSize: number = 100 ) {
+		this.cache = new Cache<string, AsyncTask<R>>( {
+			maxSize,
+			maxAge: TaskDeduplicator.MAX_AGE,
+			staleWhileRevalidate: TaskDeduplicator.STALE_WHILE_REVALIDATE
+		} );
+	}
+
+	/**
+	 * Normalize a value for use in a request key. Object keys are sorted, `null`
+	 * and `undefined` values are dropped, and arrays of primitives are treated as
+	 * sets (sorted and deduplicated).
+	 *
+	 * @param value The value to normalize
+	 * @return The normalized value
+	 */
+	static normalize( value: any ): any {
+		if ( Array.isArray( value ) ) {
+			const items = value.map( ( v ) => TaskDeduplicator.normalize( v ) );
+			if ( items.every( ( v ) => v === null || typeof v !== 'object' ) ) {
+				return Array.from( new Set( items ) ).sort();
+			}
+			return items;
+		} else if ( value instanceof RegExp ) {
+			return { source: value.source, flags: value.flags.split( '' ).sort().join( '' ) };
+		} else if ( value !== null && typeof value === 'object' ) {
+			return Object.fromEntries(
+				Object.keys( value )
+					.filter( ( k ) => value[ k ] != null )
+					.sort()
+					.map( ( k ) => [ k, TaskDeduplicator.normalize( value[ k ] ) ] )
+			);
+		}
+		return value;
+	}
+
+	/**
+	 * Call a listener once a task stops running. Only the listener for the way the
+	 * task stopped is ever called, and the other listeners are removed.
+	 *
+	 * @param task The task to listen to
+	 * @param listener Called with `true` if the task finished, `false` if it was
+	 *   cancelled or failed
+	 */
+	static onceStopped( task: AsyncTask<unknown>, listener: ( finished: boolean ) => void ): void {
+		let onFinish: () => void = null;
+		let onAbort: () => void = null;
+		const onStop = ( finished: boolean ) => {
+			task.off( 'finish', onFinish );
+			task.off( 'cancel', onAbort );
+			task.off( 'fail', onAbort );
+			listener( finished );
+		};
+		onFinish = () => onStop( true );
+		onAbort = () => onStop( false );
+		task.once( 'finish', onFinish );
+		task.once( 'cancel', onAbort );
+		task.once( 'fail', onAbort );
+	}
+
+	/**
+	 * Get the request key for a set of options.
+	 *
+	 * @param options The options of the request
+	 * @return The request key
+	 */
+	static key( options: Record<string, any> ): string {
+		return JSON.stringify( TaskDeduplicator.normalize( options ) );
+	}
+
+	/**
+	 * Find the task to use for a request, starting a new task if needed.
+	 *
+	 * @param options The options of the request. These must already be canonical
+	 *   (e.g. usernames must be normalized).
+	 * @param start Starts a new task for the request
+	 * @param bypassCache Whether to always start a new task
+	 * @return The task to use for the request
+	 */
+	resolve(
+		options: Record<string, any>,
+		start: () => AsyncTask<R>,
+		bypassCache: boolean = false
+	): DeduplicatedTask<R> {
+		const key = TaskDeduplicator.key( options );
+		const cached = this.cache.get( key );
+
+		if (
+			bypassCache ||
+			cached == null ||
+			cached.state === 'cancelled' ||
+			cached.state === 'failed'
+		) {
+			const task = start();
+			this.cache.set( key, task );
+			TaskDeduplicator.onceStopped( task, ( finished ) => {
+				// Re-add the task, so that its result is fresh from when it finished.
+				if ( finished && this.cache.get( key ) === task ) {
+					this.cache.set( key, task );
+				}
+			} );
+			return { task, created: true, stale: false };
+		}
+
+		// Tasks which are still running are never stale.
+		const stale = cached.state === 'finished' && this.cache.isStale( key );
+		if ( stale ) {
+			this.revalidate( key, start );
+		}
+		return { task: cached, created: false, stale };
+	}
+
+	/**
+	 * Refresh a stale task in the background. The stale task is replaced once the
+	 * fresh task finishes. Does nothing if the task is already being refreshed.
+	 *
+	 * @param key The request key
+	 * @param start Starts a new task for the request
+	 * @private
+	 */
+	private revalidate( key: string, start: () => AsyncTask<R> ): void {
+		if ( this.revalidating.has( key ) ) {
+			return;
+		}
+		Log.debug( 'Refreshing stale task in the background...', { key } );
+		const task = start();
+		this.revalidating.add( key );
+		TaskDeduplicator.onceStopped( task, ( finished ) => {
+			this.revalidating.delete( key );
+			if ( finished ) {
+				this.cache.set( key, task );
+			}
+		} );
+	}
+
+}
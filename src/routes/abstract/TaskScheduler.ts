@@ -0,0 +1,174 @@
+import { AsyncTask } from './AsyncTask';
+import Log from '../../util/Log';
+
+/**
+ * Information used to decide when a task may run.
+ */
+export interface TaskSchedulingInfo {
+	/**
+	 * The database name of the wiki which the task works on, if any.
+	 */
+	wiki?: string;
+	/**
+	 * An identifier of the client which requested the task, if any.
+	 */
+	client?: string;
+}
+
+interface ScheduledTask extends TaskSchedulingInfo {
+	task: AsyncTask<any>;
+	run: () => Promise<void>;
+}
+
+/**
+ * Reads a positive integer from an environment variable.
+ *
+ * @param name The name of the environment variable
+ * @param fallback The value to use if the variable is not set or invalid
+ * @return The limit
+ */
+function limitFromEnv( name: string, fallback: number ): number {
+	const value = +process.env[ name ];
+	return Number.isInteger( value ) && value > 0 ? value : fallback;
+}
+
+/**
+ * A global work queue for asynchronous tasks. Tasks are started in the order
+ * that they were scheduled, as long as the following limits are not exceeded:
+ * - the number of tasks running at once (`DISPATCH_TASK_LIMIT`, default 4)
+ * - the number of tasks running at once per wiki (`DISPATCH_TASK_LIMIT_WIKI`,
+ *   default 2)
+ * - the number of tasks running at once per client (`DISPATCH_TASK_LIMIT_CLIENT`,
+ *   default 2)
+ *
+ * Tasks which would exceed a limit wait in the queue, but do not block tasks
+ * behind them which can run. Tasks generally hold at most two replica connections
+ * at a time, so the default limits keep the tool within the Toolforge limit of
+ * 10 concurrent replica connections per tool account.
+ */
+export default class TaskScheduler {
+
+	/**
+	 * Singleton instance for this class.
+	 */
+	public static readonly i = new TaskScheduler(
+		limitFromEnv( 'DISPATCH_TASK_LIMIT', 4 ),
+		limitFromEnv( 'DISPATCH_TASK_LIMIT_WIKI', 2 ),
+		limitFromEnv( 'DISPATCH_TASK_LIMIT_CLIENT', 2 )
+	);
+
+	private readonly queue: ScheduledTask[] = [];
+	private readonly running = new Set<ScheduledTask>();
+
+	/**
+	 * @param globalLimit The maximum number of tasks running at once
+	 * @param wikiLimit The maximum number of tasks running at once per wiki
+	 * @param clientLimit The maximum number of tasks running at once per client
+	 */
+	constructor(
+		readonly globalLimit: number,
+		readonly wikiLimit: number,
+		readonly clientLimit: number
+	) {
+		/* ignored */
+	}
+
+	/**
+	 * Schedule a task to be run. The task is marked as queued until it is started.
+	 * Tasks which are cancelled while queued are removed from the queue and never run.
+	 *
+	 * @param task The task being scheduled
+	 * @param info Information used to decide when the task may run
+	 * @param run The function which processes the task
+	 */
+	schedule(
+		task: AsyncTask<any>,
+		info: TaskSchedulingInfo,
+		run: () => Promise<void>
+	): void {
+		const scheduled: ScheduledTask = { ...info, task, run };
+		task.queued = true;
+		this.queue.push( scheduled );
+		task.once( 'cancel', () => {
+			const index = this.queue.indexOf( scheduled );
+			if ( index !== -1 ) {
+				this.queue.splice( index, 1 );
+			}
+		} );
+		this.pump();
+	}
+
+	/**
+	 * Get the position of a task in the queue.
+	 *
+	 * @param task The task to look for
+	 * @return The 1-based position of the task in the queue, or `null` if the
+	 * task is not queued.
+	 */
+	getQueuePosition( task: AsyncTask<any> ): number | null {
+		const index = this.queue.findIndex( ( s ) => s.task === task );
+		return index === -1 ? null : index + 1;
+	}
+
+	/**
+	 * @return The number of tasks waiting in the queue.
+	 */
+	get queued(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Check if a scheduled task can be started without exceeding any limits.
+	 *
+	 * @param scheduled The scheduled task
+	 * @return `true` if the task can be started
+	 * @private
+	 */
+	private canStart( scheduled: ScheduledTask ): boolean {
+		if ( this.running.size >= this.globalLimit ) {
+			return false;
+		}
+		let wikiCount = 0;
+		let clientCount = 0;
+		for ( const other of this.running ) {
+			if ( scheduled.wiki != null && other.wiki === scheduled.wiki ) {
+				wikiCount++;
+			}
+			if ( scheduled.client != null && other.client === scheduled.client ) {
+				clientCount++;
+			}
+		}
+		return wikiCount < this.wikiLimit && clientCount < this.clientLimit;
+	}
+
+	/**
+	 * Start as many queued tasks as the limits allow.
+	 *
+	 * @private
+	 */
+	private pump(): void {
+		for ( let i = 0; i < this.queue.length && this.running.size < this.globalLimit; ) {
+			const scheduled = this.queue[ i ];
+			if ( !this.canStart( scheduled ) ) {
+				i++;
+				continue;
+			}
+
+			this.queue.splice( i, 1 );
+			this.running.add( scheduled );
+			Log.debug( `Starting task ${ scheduled.task.id }.`, {
+				running: this.running.size,
+				queued: this.queue.length
+			} );
+			scheduled.task.start();
+			scheduled.run()
+				.finally( () => {
+					this.running.delete( scheduled );
+					this.pump();
+				} )
+				// Errors are handled by the task runner.
+				.catch( () => { /* ignored */ } );
+		}
+	}
+
+}
@@ -0,0 +1,189 @@
+import { Knex } from 'knex';
+import { randomUUID } from 'crypto';
+import AsyncTaskStore, { AsyncTaskRecord } from './AsyncTaskStore';
+import ToolsDBConnection from '../../database/ToolsDBConnection';
+import Log from '../../util/Log';
+import backgroundInterval from '../../util/func/backgroundInterval';
+
+/**
+ * Keeps task records in the tool's ToolsDB (MariaDB) database. Task records
+ * survive restarts and deployments.
+ *
+ * Tasks are only ever processed by the process (instance) which started them.
+ * Each instance regularly updates the heartbeat of its unfinished tasks. Unfinished
+ * tasks whose heartbeat has gone stale belong to an instance which has stopped, can
+ * never finish, and are marked as failed.
+ */
+export default class ToolsDBAsyncTaskStore extends AsyncTaskStore {
+
+	static readonly TABLE = 'dispatch_async_task';
+	// Update the heartbeat of unfinished tasks every minute.
+	static readonly HEARTBEAT_INTERVAL = 60e3;
+	// Consider tasks interrupted after missing five heartbeats.
+	static readonly HEARTBEAT_TIMEOUT = 300e3;
+
+	/**
+	 * The ID of this instance. Only tasks saved by this instance get their
+	 * heartbeat updated by it.
+	 */
+	readonly instance = randomUUID();
+
+	private heartbeatInterval: NodeJS.Timeout;
+
+	/**
+	 * @return The ToolsDB connection
+	 * @private
+	 */
+	private get conn(): Promise<Knex> {
+		return ToolsDBConnection.connect();
+	}
+
+	/**
+	 * Creates the task table (if it doesn't exist yet) and marks interrupted
+	 * tasks as failed.
+	 */
+	async init(): Promise<void> {
+		const conn = await this.conn;
+		if ( !( await conn.schema.hasTable( ToolsDBAsyncTaskStore.TABLE ) ) ) {
+			Log.info( `Creating ToolsDB table "${ToolsDBAsyncTaskStore.TABLE}"...` );
+			await conn.schema.createTable( ToolsDBAsyncTaskStore.TABLE, ( table ) => {
+				table.string( 'list', 64 ).notNullable();
+				table.string( 'id', 36 ).notNullable();
+				table.string( 'state', 16 ).notNullable();
+				table.double( 'progress' ).notNullable().defaultTo( 0 );
+				table.text( 'result', 'longtext' ).nullable();
+				table.text( 'error' ).nullable();
+				table.text( 'details' ).nullable();
+				table.string( 'instance', 36 ).notNullable();
+				table.bigInteger( 'heartbeat' ).notNullable().index();
+				table.bigInteger( 'expiry' ).notNullable().index();
+				table.primary( [ 'list', 'id' ] );
+			} );
+		}
+
+		await this.failInterrupted( Date.now() );
+	}
+
+	/**
+	 * Mark unfinished tasks with a stale heartbeat as failed.
+	 *
+	 * @param now The current time, as a UNIX timestamp in milliseconds.
+	 * @return The number of tasks marked as failed
+	 */
+	async failInterrupted( now: number ): Promise<number> {
+		const interrupted = await ( await this.conn )( ToolsDBAsyncTaskStore.TABLE )
+			.whereIn( 'state', [ 'queued', 'running' ] )
+			.where( 'heartbeat', '<', now - ToolsDBAsyncTaskStore.HEARTBEAT_TIMEOUT )
+			.update( {
+				state: 'failed',
+				error: 'The task was interrupted by a restart'
+			} );
+		if ( interrupted > 0 ) {
+			Log.info( `Marked ${interrupted} interrupted tasks as failed.` );
+		}
+		return interrupted;
+	}
+
+	/**
+	 * Update the heartbeat of the unfinished tasks of this instance.
+	 *
+	 * @param now The current time, as a UNIX timestamp in milliseconds.
+	 */
+	async heartbeat( now: number ): Promise<void> {
+		await ( await this.conn )( ToolsDBAsyncTaskStore.TABLE )
+			.where( 'instance', this.instance )
+			.whereIn( 'state', [ 'queued', 'running' ] )
+			.update( { heartbeat: now } );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	startPurging() {
+		super.startPurging();
+		if ( this.heartbeatInterval ) {
+			return;
+		}
+		this.heartbeatInterval = backgroundInterval( async () => {
+			const now = Date.now();
+			await this.heartbeat( now );
+			await this.failInterrupted( now );
+		}, ToolsDBAsyncTaskStore.HEARTBEAT_INTERVAL, 'Failed to update task heartbeats.' );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	stopPurging() {
+		super.stopPurging();
+		clearInterval( this.heartbeatInterval );
+		this.heartbeatInterval = null;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async get( list: string, id: string ): Promise<AsyncTaskRecord | null> {
+		const row = await ( await this.conn )( ToolsDBAsyncTaskStore.TABLE )
+			.where( { list, id } )
+			.first();
+		if ( !row ) {
+			return null;
+		}
+		return {
+			list: row.list,
+			id: row.id,
+			state: row.state,
+			progress: +row.progress,
+			...( row.details != null ? JSON.parse( row.details ) : {} ),
+			...( row.result != null ? { result: JSON.parse( row.result ) } : {} ),
+			...( row.error != null ? { error: row.error } : {} ),
+			expireTime: +row.expiry
+		};
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async save( record: AsyncTaskRecord ): Promise<void> {
+		await ( await this.conn )( ToolsDBAsyncTaskStore.TABLE )
+			.insert( {
+				list: record.list,
+				id: record.id,
+				state: record.state,
+				progress: record.progress,
+				result: record.result !== undefined ? JSON.stringify( record.result ) : null,
+				error: record.error ?? null,
+				details: JSON.stringify( {
+					phase: record.phase,
+					status: record.status,
+					eta: record.eta,
+					key: record.key
+				} ),
+				instance: this.instance,
+				heartbeat: Date.now(),
+				expiry: record.expireTime
+			} )
+			.onConflict( [ 'list', 'id' ] )
+			.merge();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async delete( list: string, id: string ): Promise<void> {
+		await ( await this.conn )( ToolsDBAsyncTaskStore.TABLE )
+			.where( { list, id } )
+			.delete();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async purge( now: number ): Promise<number> {
+		return ( await this.conn )( ToolsDBAsyncTaskStore.TABLE )
+			.where( 'expiry', '<', now )
+			.delete();
+	}
+
+}
@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import express from 'express';
+import {
+	Controller,
+	Get,
+	Post,
+	Query,
+	Request,
+	Response,
+	Route,
+	Security,
+	SuccessResponse,
+	Tags
+} from 'tsoa';
+import { ErrorResponse } from '../../../models/ErrorResponse';
+import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
+import WikimediaOAuth from '../../../auth/WikimediaOAuth';
+import UserSessionManager, { UserSession } from '../../../auth/UserSessionManager';
+import { AuthenticatedRequest } from '../../../auth/expressAuthentication';
+import getCookie from '../../../util/func/getCookie';
+import Log from '../../../util/Log';
+
+/**
+ * A login which was started but not yet completed.
+ */
+interface PendingLogin {
+	/**
+	 * The PKCE code verifier for the authorization request.
+	 */
+	codeVerifier: string;
+	/**
+	 * The local path to redirect to once logged in.
+	 */
+	returnTo?: string;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) when this login expires.
+	 */
+	expireTime: number;
+}
+
+interface SessionInformation {
+	/**
+	 * The name of the logged-in user.
+	 */
+	username: string;
+	/**
+	 * The grants that the user gave Dispatch.
+	 */
+	grants: string[];
+	/**
+	 * When the session expires, as an ISO 8601 timestamp.
+	 */
+	expires: string;
+}
+
+interface LoginInformation extends SessionInformation {
+	/**
+	 * The session token. Send this in an `Authorization: Bearer` header to make
+	 * authenticated requests without cookies.
+	 */
+	token: string;
+}
+
+/**
+ * Logs users in with their Wikimedia account (using OAuth 2). Logged-in users can
+ * use routes which require authentication, which then run with the user's own
+ * rights instead of those of Dispatch.
+ */
+@Tags( 'Authentication' )
+@Route( 'v1/auth' )
+export class AuthController extends Controller {
+
+	static readonly errorLoginDisabled = new ErrorResponseBuilder()
+		.add( 'logindisabled', {
+			text: 'Logging in is not available on this instance of Dispatch',
+			key: 'apierror-dispatch-logindisabled'
+		} );
+	static readonly errorInvalidReturnTo = new ErrorResponseBuilder()
+		.add( 'invalidreturnto', {
+			text: 'The return location must be a path on Dispatch',
+			key: 'apierror-dispatch-invalidreturnto'
+		} );
+	static readonly errorBadState = new ErrorResponseBuilder()
+		.add( 'badstate', {
+			text: 'The login is invalid or has expired. Please try logging in again.',
+			key: 'apierror-dispatch-badstate'
+		} );
+	static readonly errorAuthorizationDenied = new ErrorResponseBuilder()
+		.add( 'authorizationdenied', {
+			text: 'Dispatch was not authorized to use your account',
+			key: 'apierror-dispatch-authorizationdenied'
+		} );
+	static readonly errorLoginFailed = new ErrorResponseBuilder()
+		.add( 'loginfailed', {
+			text: 'Could not complete the login with Wikimedia',
+			key: 'apierror-dispatch-loginfailed'
+		} );
+
+	/**
+	 * The name of the cookie which ties a login to the browser that started it.
+	 */
+	static readonly STATE_COOKIE = 'dispatch_oauth_state';
+	/**
+	 * How long (in milliseconds) users have to complete a login.
+	 */
+	static readonly LOGIN_EXPIRE_TIME = 600e3;
+	/**
+	 * The maximum number of pending logins. Once reached, the oldest pending logins
+	 * are dropped to make room for new ones.
+	 */
+	static readonly MAX_PENDING_LOGINS = 10000;
+
+	/**
+	 * Logins which were started but not yet completed, mapped by state. These are
+	 * kept in the order they were started, which is also the order they expire in.
+	 *
+	 * @private
+	 */
+	private static readonly pendingLogins = new Map<string, PendingLogin>();
+
+	/**
+	 * Check if a return location is a path on Dispatch. This prevents the login
+	 * from being used as an open redirect.
+	 *
+	 * @param returnTo The return location
+	 * @return `true` if the return location can be redirected to
+	 */
+	static isLocalPath( returnTo: string ): boolean {
+		// Browsers drop tabs and newlines from URLs, which can turn a path into a
+		// protocol-relative URL (e.g. `/\t/example.com`).
+		// eslint-disable-next-line no-control-regex
+		if ( !returnTo.startsWith( '/' ) || /[\s\x00-\x1f\x7f]/.test( returnTo ) ) {
+			return false;
+		}
+		const base = new URL( 'https://dispatch.invalid' );
+		try {
+			return new URL( returnTo, base ).origin === base.origin;
+		} catch ( e ) {
+			return false;
+		}
+	}
+
+	/**
+	 * Get the options for a cookie set by Dispatch.
+	 *
+	 * @param maxAge How long (in milliseconds) the cookie lasts
+	 * @param path The path to limit the cookie to
+	 * @return The cookie options
+	 * @private
+	 */
+	private static cookieOptions( maxAge: number, path: string = '/' ): express.CookieOptions {
+		return {
+			httpOnly: true,
+			secure: process.env.NODE_ENV !== 'development',
+			sameSite: 'lax',
+			maxAge,
+			path
+		};
+	}
+
+	/**
+	 * Get the information to return about a session.
+	 *
+	 * @param session The session
+	 * @return Information about the session
+	 * @private
+	 */
+	private static getSessionInformation( session: UserSession ): SessionInformation {
+		return {
+			username: session.username,
+			grants: session.grants,
+			expires: new Date( session.sessionExpireTime ).toISOString()
+		};
+	}
+
+	/**
+	 * Log in with a Wikimedia account. This redirects to the Wikimedia OAuth
+	 * authorization page, which then redirects back to `/v1/auth/callback`.
+	 *
+	 * @param req The request object
+	 * @param returnTo A path on Dispatch to redirect to once logged in. If not
+	 *   provided, the session token is returned by the callback instead.
+	 */
+	@Get( 'login' )
+	@SuccessResponse( 302, 'Found' )
+	@Response<ErrorResponse>( 400, 'Invalid return location' )
+	@Response<ErrorResponse>( 503, 'Logging in is not available' )
+	public async login(
+		@Request() req: express.Request,
+		@Query() returnTo?: string
+	): Promise<ErrorResponse | void> {
+		if ( !UserSessionManager.i.enabled ) {
+			this.setStatus( 503 );
+			return AuthController.errorLoginDisabled.build();
+		}
+		if ( returnTo != null && !AuthController.isLocalPath( returnTo ) ) {
+			this.setStatus( 400 );
+			return AuthController.errorInvalidReturnTo.build();
+		}
+
+		const now = Date.now();
+		for ( const [ pendingState, pending ] of AuthController.pendingLogins.entries() ) {
+			if (
+				pending.expireTime >= now &&
+				AuthController.pendingLogins.size < AuthController.MAX_PENDING_LOGINS
+			) {
+				break;
+			}
+			AuthController.pendingLogins.delete( pendingState );
+		}
+
+		const state = crypto.randomBytes( 16 ).toString( 'base64url' );
+		const codeVerifier = crypto.randomBytes( 32 ).toString( 'base64url' );
+		const codeChallenge = crypto.createHash( 'sha256' )
+			.update( codeVerifier )
+			.digest( 'base64url' );
+		AuthController.pendingLogins.set( state, {
+			codeVerifier,
+			returnTo,
+			expireTime: now + AuthController.LOGIN_EXPIRE_TIME
+		} );
+
+		req.res.cookie( AuthController.STATE_COOKIE, state, AuthController.cookieOptions(
+			AuthController.LOGIN_EXPIRE_TIME, '/v1/auth'
+		) );
+		this.setStatus( 302 );
+		this.setHeader( 'Location', WikimediaOAuth.i.getAuthorizationUrl( state, codeChallenge ) );
+	}
+
+	/**
+	 * Complete a login. Users are sent here by the Wikimedia OAuth authorization
+	 * page, and this should not be requested directly.
+	 *
+	 * This sets the session cookie. If a return location was given when logging in,
+	 * this redirects there. Otherwise, the session (including its token) is returned.
+	 *
+	 * @param req The request object
+	 * @param state The state of the login
+	 * @param code The authorization code
+	 * @param error The reason the authorization failed
+	 * @return The new session
+	 */
+	@Get( 'callback' )
+	@Response<ErrorResponse>( 400, 'Invalid or expired login' )
+	@Response<ErrorResponse>( 403, 'Authorization denied' )
+	@Response<ErrorResponse>( 502, 'Login failed' )
+	public async callback(
+		@Request() req: express.Request,
+		@Query() state?: string,
+		@Query() code?: string,
+		@Query() error?: string
+	): Promise<LoginInformation | ErrorResponse | void> {
+		const pending = state != null ? AuthController.pendingLogins.get( state ) : null;
+		if (
+			!pending ||
+			pending.expireTime < Date.now() ||
+			getCookie( req, AuthController.STATE_COOKIE ) !== state
+		) {
+			this.setStatus( 400 );
+			return AuthController.errorBadState.build();
+		}
+		AuthController.pendingLogins.delete( state );
+		req.res.clearCookie( AuthController.STATE_COOKIE, { path: '/v1/auth' } );
+
+		if ( error != null || code == null ) {
+			this.setStatus( 403 );
+			return AuthController.errorAuthorizationDenied.build();
+		}
+
+		let session: UserSession;
+		try {
+			const tokens = await WikimediaOAuth.i.exchangeCode( code, pending.codeVerifier );
+			const profile = await WikimediaOAuth.i.getProfile( tokens.accessToken );
+			session = await UserSessionManager.i.create( tokens, profile );
+		} catch ( e ) {
+			Log.warn( 'Failed to complete login.', { error: e.message } );
+			this.setStatus( 502 );
+			return AuthController.errorLoginFailed.build();
+		}
+
+		req.res.cookie( UserSessionManager.COOKIE_NAME, session.id, AuthController.cookieOptions(
+			UserSessionManager.SESSION_EXPIRE_TIME
+		) );
+		if ( pending.returnTo ) {
+			this.setStatus( 302 );
+			this.setHeader( 'Location', pending.returnTo );
+			return;
+		}
+		return {
+			...AuthController.getSessionInformation( session ),
+			token: session.id
+		};
+	}
+
+	/**
+	 * Get information about the current session.
+	 *
+	 * @param req The request object
+	 * @return Information about the session
+	 */
+	@Get( 'session' )
+	@Security( 'oauth' )
+	@Response<ErrorResponse>( 401, 'Not logged in' )
+	public async getSession(
+		@Request() req: express.Request
+	): Promise<SessionInformation> {
+		return AuthController.getSessionInformation( ( req as AuthenticatedRequest ).user );
+	}
+
+	/**
+	 * Log out, ending the current session.
+	 *
+	 * @param req The request object
+	 */
+	@Post( 'logout' )
+	@Security( 'oauth' )
+	@SuccessResponse( 204, 'No Content' )
+	@Response<ErrorResponse>( 401, 'Not logged in' )
+	public async logout(
+		@Request() req: express.Request
+	): Promise<void> {
+		await UserSessionManager.i.destroy( ( req as AuthenticatedRequest ).user.id );
+		req.res.clearCookie( UserSessionManager.COOKIE_NAME, { path: '/' } );
+		this.setStatus( 204 );
+	}
+
+}
@@ -0,0 +1,306 @@
+import {
+	Controller,
+	Get,
+	Path,
+	Query,
+	Request,
+	Response,
+	Route,
+	SuccessResponse,
+	Tags
+} from 'tsoa';
+import express from 'express';
+import { ErrorFormat, ErrorResponse } from '../../../models/ErrorResponse';
+import { ExpandedRevision } from '../../../models/Revision';
+import { WikimediaSiteMatrix } from '../../../util/WikimediaSiteMatrix';
+import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
+import TitleFactory from '../../../util/Title';
+import ReplicaConnection from '../../../database/ReplicaConnection';
+import DatabaseRevisionFetcher from '../../../processors/DatabaseRevisionFetcher';
+import toDbTimestamp from '../../../database/util/toDbTimestamp';
+
+interface PageRevisionsResponse {
+	version: 1;
+	page: {
+		pageid: number;
+		ns: number;
+		title: string;
+	};
+	/**
+	 * The matching revisions, newest first.
+	 */
+	revisions: ExpandedRevision[];
+	/**
+	 * Provide this as `cursor` to get the next revisions. Not set if there are no
+	 * more revisions.
+	 */
+	continue?: string;
+}
+
+/**
+ * Gets revisions from the history of a page.
+ */
+@Tags( 'Pages' )
+@Route( 'v1/pages' )
+export class PageRevisionsController extends Controller {
+
+	static readonly DEFAULT_LIMIT = 50;
+	static readonly MAX_LIMIT = 500;
+	/**
+	 * The maximum number of tags in each of `tags` and `withoutTags`.
+	 */
+	static readonly MAX_TAGS = 10;
+
+	static readonly errorUnsupportedWiki = new ErrorResponseBuilder()
+		.add( 'unsupportedwiki', {
+			text: 'This wiki is not a supported Wikimedia wiki',
+			key: 'apierror-unsupportedwiki'
+		} );
+	static readonly errorInvalidTitle = new ErrorResponseBuilder()
+		.add( 'invalidtitle', {
+			text: 'The provided title is invalid',
+			key: 'apierror-invalidtitle'
+		} );
+	static readonly errorMissingTitle = new ErrorResponseBuilder()
+		.add( 'missingtitle', {
+			text: 'The page you specified doesn\'t exist',
+			key: 'apierror-missingtitle'
+		} );
+	static readonly errorInvalidUser = new ErrorResponseBuilder()
+		.add( 'invaliduser', {
+			text: 'The provided username is invalid',
+			key: 'apierror-invaliduser'
+		} );
+	static readonly errorBadTimestamp = new ErrorResponseBuilder()
+		.add( 'badtimestamp', {
+			text: 'One of the timestamps provided is not a valid ISO 8601 timestamp',
+			key: 'apierror-badtimestamp'
+		} );
+	static readonly errorBadCursor = new ErrorResponseBuilder()
+		.add( 'badcursor', {
+			text: 'The provided cursor is invalid',
+			key: 'apierror-badcontinue'
+		} );
+	static readonly errorBadTags = new ErrorResponseBuilder()
+		.add( 'badtags', {
+			text: `Up to ${ PageRevisionsController.MAX_TAGS } tags can be given, and ` +
+				'tags cannot be empty',
+			key: 'apierror-dispatch-badtags',
+			params: [ `${ PageRevisionsController.MAX_TAGS }` ]
+		} );
+	static readonly errorBadLimit = new ErrorResponseBuilder()
+		.add( 'badlimit', {
+			text: `The limit must be between 1 and ${ PageRevisionsController.MAX_LIMIT }`,
+			key: 'apierror-integeroutofrange-abovemax',
+			params: [ 'limit', `${ PageRevisionsController.MAX_LIMIT }` ]
+		} );
+
+	/**
+	 * Parse a timestamp given as a filter.
+	 *
+	 * @param timestamp The timestamp
+	 * @return The timestamp in the MediaWiki DB format, `undefined` if not given, or
+	 *   `null` if invalid
+	 * @private
+	 */
+	private static parseTimestamp( timestamp?: string ): string | null | undefined {
+		if ( timestamp == null ) {
+			return undefined;
+		}
+		const date = new Date( timestamp );
+		return isNaN( date.getTime() ) ? null : toDbTimestamp( date );
+	}
+
+	/**
+	 * Split a list of tags given as a filter.
+	 *
+	 * @param tags The tags, separated by pipes (`|`)
+	 * @return The tags, `undefined` if not given, or `null` if invalid
+	 * @private
+	 */
+	private static parseTags( tags?: string ): string[] | null | undefined {
+		if ( tags == null ) {
+			return undefined;
+		}
+		const split = tags.split( '|' );
+		return split.length <= PageRevisionsController.MAX_TAGS &&
+			split.every( ( tag ) => tag.length > 0 && tag.length <= 255 ) ? split : null;
+	}
+
+	/**
+	 * Get Deputy-decorated revisions from the history of a page, newest first.
+	 * Revisions are read from the Wiki Replicas, so deleted data is never included.
+	 *
+	 * @param req Express request object
+	 * @param wiki Database name of the wiki
+	 * @param title The title of the page. Titles with slashes must be URL-encoded.
+	 * @param start Only get revisions made at or after this time (ISO 8601)
+	 * @param end Only get revisions made at or before this time (ISO 8601)
+	 * @param user Only get revisions by this user
+	 * @param minDiffSize Only get revisions which grew the page by at least this many
+	 *   bytes. Use a negative value to also get revisions which shrunk the page by at
+	 *   most that many bytes.
+	 * @param minAbsDiffSize Only get revisions which grew or shrunk the page by at
+	 *   least this many bytes
+	 * @param tags Only get revisions with all of these tags, separated by pipes (`|`).
+	 *   Up to 10 tags can be given.
+	 * @param withoutTags Only get revisions with none of these tags, separated by
+	 *   pipes (`|`). Up to 10 tags can be given.
+	 * @param limit The maximum number of revisions to get
+	 * @param cursor The `continue` value of the previous response, to get the
+	 *   next revisions
+	 * @return The matching revisions
+	 */
+	@Get( '{wiki}/{title}/revisions' )
+	@Response<ErrorResponse>(
+		422,
+		'Unprocessable entity',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>( 404, 'Page not found' )
+	@SuccessResponse( 200, 'OK' )
+	public async getPageRevisions(
+		@Request() req: express.Request,
+		@Path() wiki: string,
+		@Path() title: string,
+		@Query() start?: string,
+		@Query() end?: string,
+		@Query() user?: string,
+		@Query() minDiffSize?: number,
+		@Query() minAbsDiffSize?: number,
+		@Query() tags?: string,
+		@Query() withoutTags?: string,
+		@Query() limit: number = PageRevisionsController.DEFAULT_LIMIT,
+		@Query() cursor?: string
+	): Promise<PageRevisionsResponse | ErrorResponse> {
+		const errorFormat = req.params.errorformat as ErrorFormat;
+		const site = await WikimediaSiteMatrix.i.getDbName( wiki );
+		if ( !site || site.nonglobal !== undefined ) {
+			this.setStatus( 422 );
+			return PageRevisionsController.errorUnsupportedWiki.build( errorFormat );
+		}
+
+		const Title = await TitleFactory.get( site );
+		const page = Title.newFromText( title );
+		if ( !page || page.getNamespaceId() < 0 ) {
+			this.setStatus( 422 );
+			return PageRevisionsController.errorInvalidTitle.build( errorFormat );
+		}
+
+		const username = user != null ?
+			await TitleFactory.normalizeUsername( site, user ) :
+			undefined;
+		if ( username === null ) {
+			this.setStatus( 422 );
+			return PageRevisionsController.errorInvalidUser.build( errorFormat );
+		}
+
+		const startTimestamp = PageRevisionsController.parseTimestamp( start );
+		const endTimestamp = PageRevisionsController.parseTimestamp( end );
+		if ( startTimestamp === null || endTimestamp === null ) {
+			this.setStatus( 422 );
+			return PageRevisionsController.errorBadTimestamp.build( errorFormat );
+		}
+
+		// Cursors point to the next revision, as `timestamp|revid`.
+		const [ cursorTimestamp, cursorRevid ] = cursor?.split( '|' ) ?? [];
+		if ( cursor != null && !(
+			/^\d{14}$/.test( cursorTimestamp ) && /^\d+$/.test( cursorRevid ?? '' )
+		) ) {
+			this.setStatus( 422 );
+			return PageRevisionsController.errorBadCursor.build( errorFormat );
+		}
+
+		const withTagList = PageRevisionsController.parseTags( tags );
+		const withoutTagList = PageRevisionsController.parseTags( withoutTags );
+		if ( withTagList === null || withoutTagList === null ) {
+			this.setStatus( 422 );
+			return PageRevisionsController.errorBadTags.build( errorFormat );
+		}
+
+		if ( !( limit >= 1 && limit <= PageRevisionsController.MAX_LIMIT ) ) {
+			this.setStatus( 422 );
+			return PageRevisionsController.errorBadLimit.build( errorFormat );
+		}
+
+		const conn = await ReplicaConnection.connect( site, 'web' );
+		const pageRow = await conn( 'page' )
+			.select( 'page_id' )
+			.where( 'page_namespace', page.getNamespaceId() )
+			.where( 'page_title', page.getMain() )
+			.first();
+		if ( !pageRow ) {
+			this.setStatus( 404 );
+			return PageRevisionsController.errorMissingTitle.build( errorFormat );
+		}
+
+		const revisions = await DatabaseRevisionFetcher.fetch( conn, Title, ( qb ) => {
+			qb.where( 'main.rev_page', pageRow.page_id );
+
+			if ( username ) {
+				qb.where( 'main.rev_actor', conn( 'actor_revision' )
+					.select( 'actor_id' )
+					.where( 'actor_name', username )
+				);
+			}
+			if ( startTimestamp ) {
+				qb.where( 'main.rev_timestamp', '>=', startTimestamp );
+			}
+			if ( endTimestamp ) {
+				qb.where( 'main.rev_timestamp', '<=', endTimestamp );
+			}
+			const diffSize = 'CAST(main.rev_len AS SIGNED) - ' +
+				'CAST(COALESCE(parent.rev_len, 0) AS SIGNED)';
+			if ( minDiffSize != null ) {
+				qb.whereRaw( `${ diffSize } >= ?`, [ minDiffSize ] );
+			}
+			if ( minAbsDiffSize != null ) {
+				qb.whereRaw( `ABS(${ diffSize }) >= ?`, [ minAbsDiffSize ] );
+			}
+			if ( withTagList ) {
+				qb.withTags( withTagList, 'main' );
+			}
+			if ( withoutTagList ) {
+				qb.withoutTags( withoutTagList, 'main' );
+			}
+			if ( cursor != null ) {
+				qb.where( ( clause ) => clause
+					.where( 'main.rev_timestamp', '<', cursorTimestamp )
+					.orWhere( ( inner ) => inner
+						.where( 'main.rev_timestamp', cursorTimestamp )
+						.where( 'main.rev_id', '<=', +cursorRevid )
+					)
+				);
+			}
+
+			// One extra revision is fetched to tell if there are more revisions.
+			return qb
+				.orderBy( [
+					{ column: 'main.rev_timestamp', order: 'desc' },
+					{ column: 'main.rev_id', order: 'desc' }
+				] )
+				.limit( limit + 1 );
+		} ) as ExpandedRevision[];
+
+		const next = revisions.length > limit ? revisions.pop() : undefined;
+		if ( revisions.length > 0 ) {
+			await DatabaseRevisionFetcher.upgradeRevisionsWithParsedEditSummaries(
+				site, revisions
+			);
+		}
+
+		return {
+			version: 1,
+			page: {
+				pageid: +pageRow.page_id,
+				ns: page.getNamespaceId(),
+				title: page.getPrefixedText()
+			},
+			revisions,
+			...( next ? {
+				continue: `${ toDbTimestamp( new Date( next.timestamp ) ) }|${ next.revid }`
+			} : {} )
+		};
+	}
+
+}
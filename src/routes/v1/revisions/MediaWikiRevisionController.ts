@@ -12,16 +12,110 @@ import {
 	Tags
 } from 'tsoa';
 import { ErrorFormat, ErrorResponse } from '../../../models/ErrorResponse';
-import { Revision } from '../../../models/Revision';
-import { WikimediaSiteMatrix } from '../../../util/WikimediaSiteMatrix';
+import { ExpandedRevision, isValidRevision, Revision } from '../../../models/Revision';
+import { SiteMatrixSite, WikimediaSiteMatrix } from '../../../util/WikimediaSiteMatrix';
 import express from 'express';
 import RevisionStore from '../../../util/RevisionStore';
-import RevisionExpander from '../../../processors/RevisionExpander';
+import { RevisionSource } from '../../../processors/RevisionExpander';
 import WikimediaSessionManager from '../../../processors/WikimediaSessionManager';
 import Log from '../../../util/Log';
 import timeoutPromise from '../../../util/func/timeoutPromise';
-import isPromisePending from '../../../util/func/isPromisePending';
+import settlesBefore from '../../../util/func/settlesBefore';
+import throwIfAborted from '../../../util/func/throwIfAborted';
 import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
+import {
+	getSessionToken,
+	optionalAuthentication
+} from '../../../auth/expressAuthentication';
+import AuthenticationError from '../../../auth/AuthenticationError';
+import RevisionAccess, { RevisionAccessRights } from '../../../auth/RevisionAccess';
+import AddedTextExtractor, { AddedText } from '../../../processors/AddedTextExtractor';
+import RevertDetector, { RevertInformation } from '../../../processors/RevertDetector';
+import ReplicaConnection from '../../../database/ReplicaConnection';
+import { mwn } from 'mwn';
+import crypto from 'crypto';
+import RevisionStorePersistence from '../../../util/RevisionStorePersistence';
+import FileRevisionStorePersistence from '../../../util/FileRevisionStorePersistence';
+import ToolsDBRevisionStorePersistence from '../../../util/ToolsDBRevisionStorePersistence';
+import { CACHE_PATH } from '../../../DispatchConstants';
+import { UserSession } from '../../../auth/UserSessionManager';
+import { TaskInformation } from '../../abstract/AsyncTaskController';
+import { MediaWikiRevisionTaskController } from './MediaWikiRevisionTaskController';
+
+/**
+ * An additional revision property which can be requested with `props`.
+ */
+export type RevisionProp = keyof AddedText | 'reverts';
+
+export interface RevisionsResponse {
+	version: 1;
+	/**
+	 * The revisions, mapped by revision ID. Revert information is only added if
+	 * requested, and is left out if it could not be determined.
+	 */
+	revisions: Record<number, Revision & Partial<AddedText> & Partial<RevertInformation>>;
+	/**
+	 * Where the revisions were fetched from: `cache` if all revisions were cached,
+	 * `api` if some were fetched from the MediaWiki API, or `replica` if some were
+	 * fetched from the Wiki Replicas because the API was failing. Revisions from the
+	 * Wiki Replicas do not have parsed comments.
+	 */
+	source: 'cache' | RevisionSource;
+	/**
+	 * Revisions which were still being processed when the request timed out (including
+	 * revisions whose added text or revert information was still being found), or
+	 * which could not be found on the Wiki Replicas. These are cached once processed,
+	 * so retrying shortly after should return them.
+	 */
+	pending?: number[];
+	/**
+	 * Provide this as `revisions` to get the pending revisions.
+	 */
+	continue?: string;
+}
+
+/**
+ * A checked request for revisions, ready to be processed.
+ */
+export interface RevisionRequest {
+	site: SiteMatrixSite;
+	revisions: number[];
+	props: RevisionProp[];
+	/**
+	 * The session of the requester, if logged in.
+	 */
+	session: UserSession | null;
+	access: RevisionAccessRights;
+}
+
+/**
+ * Options for processing revisions with {@link MediaWikiRevisionController.expandRevisions}.
+ */
+export interface RevisionExpansionOptions {
+	/**
+	 * How long (in milliseconds) to wait for revisions, including their additional
+	 * properties. Revisions which were not processed in time are listed as pending.
+	 * Waits indefinitely if not given.
+	 */
+	timeout?: number;
+	/**
+	 * Stops waiting for revisions once aborted.
+	 */
+	signal?: AbortSignal;
+	/**
+	 * Called whenever a revision has been processed.
+	 */
+	onProgress?: ( processed: number, total: number ) => void;
+}
+
+interface CrossWikiRevisionsResponse {
+	version: 1;
+	/**
+	 * The revisions of each wiki, mapped by wiki as given in the request. Wikis
+	 * whose revisions could not be fetched have an error response instead.
+	 */
+	wikis: Record<string, RevisionsResponse | ErrorResponse>;
+}
 
 /**
  *
@@ -31,6 +125,37 @@ import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
 export class MediaWikiRevisionController extends Controller {
 
 	static readonly GET_LIMIT = 50;
+	/**
+	 * How long (in milliseconds) to wait for revisions to be processed. Revisions which
+	 * take longer are returned as `pending`.
+	 */
+	static readonly PROCESSING_TIMEOUT = 10e3;
+	/**
+	 * POST requests with more revisions than this are processed as a task instead.
+	 */
+	static readonly ASYNC_THRESHOLD = +( process.env.DISPATCH_REVISIONS_ASYNC_THRESHOLD ?? 500 );
+	/**
+	 * The maximum number of wikis in a cross-wiki request.
+	 */
+	static readonly CROSSWIKI_WIKI_LIMIT = 10;
+	/**
+	 * Additional revision properties which can be requested with `props`.
+	 */
+	static readonly PROPS: readonly RevisionProp[] = [ 'addedtext', 'addedplaintext', 'reverts' ];
+	/**
+	 * How long (in milliseconds) after being saved a revision is likely to still change,
+	 * such as by getting tags from bots and edit filters.
+	 */
+	static readonly MUTABLE_TIME = 3600e3;
+	/**
+	 * How long (in seconds) clients can cache responses with revisions which may
+	 * still change.
+	 */
+	static readonly MUTABLE_MAX_AGE = 60;
+	/**
+	 * How long (in seconds) clients can cache responses with only settled revisions.
+	 */
+	static readonly SETTLED_MAX_AGE = 3600;
 
 	static readonly errorUnsupportedWiki = new ErrorResponseBuilder()
 		.add( 'unsupportedwiki', {
@@ -47,6 +172,33 @@ export class MediaWikiRevisionController extends Controller {
 			text: 'One of the revisions provided is not a valid integer',
 			key: 'apierror-badinteger'
 		} );
+	static readonly errorBadProps = new ErrorResponseBuilder()
+		.add( 'badprops', {
+			text: `Unrecognized value for props. Valid values are: ${
+				MediaWikiRevisionController.PROPS.join( ', ' )
+			}`,
+			key: 'apierror-unrecognizedvalue',
+			params: [ 'props' ]
+		} );
+	static readonly errorBadPair = new ErrorResponseBuilder()
+		.add( 'badpair', {
+			text: 'Revisions must be given as pairs of a wiki and revision ID, ' +
+				'such as "enwiki:123456"',
+			key: 'apierror-dispatch-badpair'
+		} );
+	static readonly errorCrossWikiLimited = new ErrorResponseBuilder()
+		.add( 'crosswiki-limited', {
+			text: `Cross-wiki requests are limited up to ${
+				MediaWikiRevisionController.ASYNC_THRESHOLD
+			} revisions from up to ${
+				MediaWikiRevisionController.CROSSWIKI_WIKI_LIMIT
+			} wikis. Use /v1/revisions/{wiki} for more revisions.`,
+			key: 'apierror-dispatch-crosswikilimited',
+			params: [
+				`${MediaWikiRevisionController.ASYNC_THRESHOLD}`,
+				`${MediaWikiRevisionController.CROSSWIKI_WIKI_LIMIT}`
+			]
+		} );
 	static readonly errorMethodLimited = new ErrorResponseBuilder()
 		.add( 'method-limited', {
 			text: `GET requests are limited up to ${
@@ -55,27 +207,74 @@ export class MediaWikiRevisionController extends Controller {
 			key: 'apierror-missingparam',
 			params: [ `${MediaWikiRevisionController.GET_LIMIT}` ]
 		} );
-	static readonly errorExpanderTimeout = new ErrorResponseBuilder()
-		.add( 'expander-timeout', {
-			text: 'Timed out trying to get revision information',
-			key: 'apierror-badinteger'
-		} );
 
-	static revisionStore = new RevisionStore( false, true );
 	/**
-	 * Administrator-only revision store. Requires authentication for access.
+	 * Revision store for anonymous requesters and requesters who cannot see any
+	 * deleted data. Revisions here are fetched with Dispatch's own account.
+	 */
+	static revisionStore = new RevisionStore( false, false, { name: 'public' } );
+	/**
+	 * Revision store for requesters who can see deleted data. Revisions here are
+	 * fetched with the requester's own account, and are stripped for each requester
+	 * with {@link RevisionAccess.strip}.
+	 */
+	static privilegedRevisionStore = new RevisionStore( true, false, { name: 'privileged' } );
+
+	/**
+	 * Sets up persistence for the revision stores, then starts their streams. The
+	 * streams are only started afterwards, so that they can resume from the last event
+	 * seen before the previous shutdown. The persistence layer is chosen
+	 * with the `DISPATCH_REVISION_STORE_PERSISTENCE` environment variable:
+	 * - `none` (default) – revisions are only kept in memory
+	 * - `file` – revisions are saved as files in `DISPATCH_REVISION_STORE_PATH`
+	 * - `toolsdb` – revisions are saved in the tool's ToolsDB database
 	 *
-	 * TODO: Unused. Use when authenticate is developed.
+	 * Only the public store is persisted. Deleted data is never written out.
 	 */
-	static privilegedRevisionStore = new RevisionStore( true, true );
+	static async initializeStores(): Promise<void> {
+		let persistence: RevisionStorePersistence = null;
+		switch ( process.env.DISPATCH_REVISION_STORE_PERSISTENCE ?? 'none' ) {
+			case 'none':
+				break;
+			case 'file':
+				persistence = new FileRevisionStorePersistence(
+					process.env.DISPATCH_REVISION_STORE_PATH ?? CACHE_PATH
+				);
+				break;
+			case 'toolsdb':
+				persistence = new ToolsDBRevisionStorePersistence();
+				break;
+			default:
+				throw new Error( `Unknown revision store persistence: ${
+					process.env.DISPATCH_REVISION_STORE_PERSISTENCE
+				}` );
+		}
+		if ( persistence ) {
+			Log.info( `Using ${ persistence.constructor.name } for revisions.` );
+			await persistence.init();
+			await MediaWikiRevisionController.revisionStore.persist( persistence );
+		}
+		MediaWikiRevisionController.revisionStore.startStream();
+		MediaWikiRevisionController.privilegedRevisionStore.startStream();
+	}
 
 	/**
 	 * Get Deputy-decorated revisions from a list of revision IDs.
 	 *
+	 * Logged-in users can also see deleted summaries and usernames, as far as their
+	 * rights on the wiki allow.
+	 *
 	 * @param req Express request object
 	 * @param wiki Database name of the wiki
 	 * @param revisions Revision IDs to process, separated by pipes (`|`)
-	 * @return Expanded revisions for Deputy
+	 * @param props Additional properties to get, separated by pipes (`|`):
+	 *   `addedtext` for the wikitext added by each revision, and `addedplaintext` for
+	 *   the same without wiki markup. These are left out for revisions whose text
+	 *   cannot be seen. `reverts` for whether each revision was reverted or was
+	 *   itself a revert.
+	 * @return Expanded revisions for Deputy. If processing takes too long, the revisions
+	 *   which were not processed in time are listed in `pending` instead. Nothing is
+	 *   returned if the revisions match the `If-None-Match` header.
 	 */
 	@Get( '{wiki}' )
 	@Response<ErrorResponse>(
@@ -83,22 +282,102 @@ export class MediaWikiRevisionController extends Controller {
 		'Unprocessable entity',
 		ErrorResponseBuilder.generic.build()
 	)
+	@Response<ErrorResponse>( 401, 'Invalid session' )
+	@Response<void>( 304, 'Not Modified' )
 	@SuccessResponse( 200, 'OK' )
 	public async getRevisionsGet(
 		@Request() req: express.Request,
 		@Path() wiki: string,
-		@Query() revisions: string
-	): Promise<{ version: 1, revisions: Record<number, Revision> } | ErrorResponse> {
-		return this.getRevisions( req, wiki, revisions.split( '|' ) );
+		@Query() revisions: string,
+		@Query() props?: string
+	): Promise<RevisionsResponse | ErrorResponse | void> {
+		const response = await this.getRevisions(
+			req, wiki, revisions.split( '|' ), props?.split( '|' )
+		);
+		if ( 'revisions' in response && this.setCacheHeaders( req, response ) ) {
+			this.setStatus( 304 );
+			return;
+		}
+		return response;
+	}
+
+	/**
+	 * Set the caching headers of a revisions response. The `ETag` is computed from the
+	 * revisions (including their visibility), and the cache lifetime is shortened if
+	 * any revision may still change. Responses with pending revisions or revisions from
+	 * the Wiki Replicas are not cached.
+	 *
+	 * @param req Express request object
+	 * @param response The response
+	 * @return `true` if the response matches the `If-None-Match` header, in which
+	 *   case it should not be sent.
+	 * @private
+	 */
+	private setCacheHeaders( req: express.Request, response: RevisionsResponse ): boolean {
+		// Responses depend on who is logged in.
+		req.res.vary( 'Authorization' );
+		req.res.vary( 'Cookie' );
+		if ( response.pending || response.source === 'replica' ) {
+			this.setHeader( 'Cache-Control', 'no-store' );
+			return false;
+		}
+
+		const etag = `"${ crypto.createHash( 'sha256' )
+			.update( JSON.stringify( response.revisions ) )
+			.digest( 'base64url' ) }"`;
+		this.setHeader( 'ETag', etag );
+
+		const now = Date.now();
+		let lastModified = 0;
+		let mutable = false;
+		for ( const revision of Object.values( response.revisions ) ) {
+			if ( !isValidRevision( revision ) ) {
+				// Missing revisions may still be restored (or made).
+				mutable = true;
+				continue;
+			}
+			const timestamp = new Date( revision.timestamp ).getTime();
+			lastModified = Math.max( lastModified, timestamp );
+			mutable = mutable || now - timestamp < MediaWikiRevisionController.MUTABLE_TIME;
+		}
+		if ( lastModified > 0 ) {
+			this.setHeader( 'Last-Modified', new Date( lastModified ).toUTCString() );
+		}
+		this.setHeader( 'Cache-Control', [
+			getSessionToken( req ) ? 'private' : 'public',
+			`max-age=${ mutable ?
+				MediaWikiRevisionController.MUTABLE_MAX_AGE :
+				MediaWikiRevisionController.SETTLED_MAX_AGE }`
+		].join( ', ' ) );
+
+		const ifNoneMatch = req.header( 'If-None-Match' );
+		return ifNoneMatch != null && ifNoneMatch.split( ',' ).some( ( tag ) => {
+			tag = tag.trim();
+			// Weak comparison, as allowed for GET requests.
+			return tag === '*' || tag.replace( /^W\//, '' ) === etag;
+		} );
 	}
 
 	/**
 	 * Get Deputy-decorated revisions from a list of revision IDs.
 	 *
+	 * Logged-in users can also see deleted summaries and usernames, as far as their
+	 * rights on the wiki allow.
+	 *
 	 * @param req Express request object
 	 * @param wiki Database name of the wiki
 	 * @param revisions Revision IDs to process, separated by pipes (`|`)
-	 * @return Expanded revisions for Deputy
+	 * @param props Additional properties to get, separated by pipes (`|`):
+	 *   `addedtext` for the wikitext added by each revision, and `addedplaintext` for
+	 *   the same without wiki markup. These are left out for revisions whose text
+	 *   cannot be seen. `reverts` for whether each revision was reverted or was
+	 *   itself a revert.
+	 * @return Expanded revisions for Deputy. If processing takes too long, the revisions
+	 *   which were not processed in time are listed in `pending` instead. If more than
+	 *   `DISPATCH_REVISIONS_ASYNC_THRESHOLD` (default: 500) revisions are requested, a
+	 *   task is started instead, and its information is returned with `202 Accepted`.
+	 *   Poll `tasks/:id/progress` until the task is finished, then get the revisions
+	 *   from `tasks/:id`.
 	 */
 	@Post( '{wiki}' )
 	@Response<ErrorResponse>(
@@ -106,19 +385,137 @@ export class MediaWikiRevisionController extends Controller {
 		'Unprocessable entity',
 		ErrorResponseBuilder.generic.build()
 	)
+	@Response<ErrorResponse>( 401, 'Invalid session' )
+	@Response<TaskInformation>( 202, 'Accepted' )
 	@SuccessResponse( 200, 'OK' )
 	public async getRevisionsPost(
 		@Request() req: express.Request,
 		@Path() wiki: string,
-		@BodyProp() revisions: number|number[]|string|string[]
-	): Promise<{ version: 1, revisions: Record<number, Revision> } | ErrorResponse> {
-		return this.getRevisions(
+		@BodyProp() revisions: number|number[]|string|string[],
+		@BodyProp() props?: string|string[]
+	): Promise<RevisionsResponse | TaskInformation | ErrorResponse> {
+		const request = await this.prepareRequest(
 			req,
 			wiki,
 			typeof revisions === 'string' ?
 				revisions.split( '|' ) :
-				( Array.isArray( revisions ) ? revisions : [ revisions ] )
+				( Array.isArray( revisions ) ? revisions : [ revisions ] ),
+			typeof props === 'string' ? props.split( '|' ) : props
 		);
+		if ( !( 'site' in request ) ) {
+			return request;
+		}
+		if ( request.revisions.length <= MediaWikiRevisionController.ASYNC_THRESHOLD ) {
+			return MediaWikiRevisionController.expandRevisions( request, {
+				timeout: MediaWikiRevisionController.PROCESSING_TIMEOUT
+			} );
+		}
+
+		const taskController = new MediaWikiRevisionTaskController();
+		const information = await taskController.startTask( req, request );
+		this.setStatus( taskController.getStatus() );
+		for ( const [ name, value ] of Object.entries( taskController.getHeaders() ) ) {
+			this.setHeader( name, value );
+		}
+		return information;
+	}
+
+	/**
+	 * Get Deputy-decorated revisions from several wikis at once. Revisions are
+	 * processed for each wiki in parallel. If the revisions of a wiki cannot be
+	 * fetched (for example, because the wiki is not supported), the error is
+	 * returned for that wiki only.
+	 *
+	 * Requests are limited to `DISPATCH_REVISIONS_ASYNC_THRESHOLD` (default: 500)
+	 * revisions in total, from up to 10 wikis. Larger requests must be made to
+	 * `/v1/revisions/{wiki}`, which processes them as a task.
+	 *
+	 * @param req Express request object
+	 * @param revisions Pairs of wiki database names and revision IDs, such as
+	 *   `enwiki:123456`, separated by pipes (`|`) or as an array
+	 * @param props Additional properties to get. See `/v1/revisions/{wiki}`.
+	 * @return Expanded revisions for Deputy, grouped by wiki
+	 */
+	@Post()
+	@Response<ErrorResponse>(
+		422,
+		'Unprocessable entity',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>( 401, 'Invalid session' )
+	@Response<ErrorResponse>( 413, 'Too many revisions or wikis' )
+	@SuccessResponse( 200, 'OK' )
+	public async getCrossWikiRevisions(
+		@Request() req: express.Request,
+		@BodyProp() revisions: string|string[],
+		@BodyProp() props?: string|string[]
+	): Promise<CrossWikiRevisionsResponse | ErrorResponse> {
+		const pairs = ( typeof revisions === 'string' ? revisions.split( '|' ) : revisions )
+			.filter( ( pair ) => pair.length > 0 );
+		if ( pairs.length === 0 ) {
+			this.setStatus( 422 );
+			return MediaWikiRevisionController.errorRevisionsMissing.build(
+				req.params.errorformat as ErrorFormat
+			);
+		} else if ( pairs.length > MediaWikiRevisionController.ASYNC_THRESHOLD ) {
+			this.setStatus( 413 );
+			return MediaWikiRevisionController.errorCrossWikiLimited.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+
+		const revisionsByWiki = new Map<string, string[]>();
+		for ( const pair of pairs ) {
+			const separator = pair.lastIndexOf( ':' );
+			if ( separator < 1 || separator === pair.length - 1 ) {
+				this.setStatus( 422 );
+				return MediaWikiRevisionController.errorBadPair.build(
+					req.params.errorformat as ErrorFormat
+				);
+			}
+			const wiki = pair.slice( 0, separator );
+			if ( !revisionsByWiki.has( wiki ) ) {
+				revisionsByWiki.set( wiki, [] );
+			}
+			revisionsByWiki.get( wiki ).push( pair.slice( separator + 1 ) );
+		}
+		if ( revisionsByWiki.size > MediaWikiRevisionController.CROSSWIKI_WIKI_LIMIT ) {
+			this.setStatus( 413 );
+			return MediaWikiRevisionController.errorCrossWikiLimited.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+
+		const wikis = await Promise.all( Array.from( revisionsByWiki ).map(
+			async ( [ wiki, revids ] ): Promise<[ string, RevisionsResponse | ErrorResponse ]> => {
+				// Each wiki gets its own controller, so that errors (and their status
+				// codes) do not affect the other wikis.
+				const controller = new MediaWikiRevisionController();
+				try {
+					return [ wiki, await controller.getRevisions(
+						req,
+						wiki,
+						revids,
+						typeof props === 'string' ? props.split( '|' ) : props
+					) ];
+				} catch ( e ) {
+					if ( e instanceof AuthenticationError ) {
+						// A bad session fails every wiki, so it fails the whole request.
+						throw e;
+					}
+					Log.warn( 'Failed to get revisions of a wiki in a cross-wiki request.', {
+						wiki,
+						error: e.message
+					} );
+					return [ wiki, ErrorResponseBuilder.generic.build(
+						req.params.errorformat as ErrorFormat
+					) ];
+				}
+			}
+		) );
+		// Wikis are given by the requester. Unlike assignment, `Object.fromEntries`
+		// defines keys such as `__proto__` as regular properties.
+		return { version: 1, wikis: Object.fromEntries( wikis ) };
 	}
 
 	/**
@@ -126,12 +523,40 @@ export class MediaWikiRevisionController extends Controller {
 	 * @param req
 	 * @param wiki
 	 * @param revisions
+	 * @param props
 	 */
 	async getRevisions(
 		req: express.Request,
 		wiki: string,
-		revisions: ( string|number )[]
-	): Promise<{ version: 1, revisions: Record<number, Revision> } | ErrorResponse> {
+		revisions: ( string|number )[],
+		props: string[] = []
+	): Promise<RevisionsResponse | ErrorResponse> {
+		const request = await this.prepareRequest( req, wiki, revisions, props );
+		if ( !( 'site' in request ) ) {
+			return request;
+		}
+		return MediaWikiRevisionController.expandRevisions( request, {
+			timeout: MediaWikiRevisionController.PROCESSING_TIMEOUT
+		} );
+	}
+
+	/**
+	 * Check a request for revisions, and find out what the requester can see. Sets
+	 * the response status if the request is invalid.
+	 *
+	 * @param req Express request object
+	 * @param wiki Database name of the wiki
+	 * @param revisions Revision IDs to process
+	 * @param props Additional properties to get
+	 * @return The checked request, or an error
+	 * @private
+	 */
+	private async prepareRequest(
+		req: express.Request,
+		wiki: string,
+		revisions: ( string|number )[],
+		props: string[] = []
+	): Promise<RevisionRequest | ErrorResponse> {
 		const site = await WikimediaSiteMatrix.i.getDbName( wiki );
 
 		if ( !site || site.nonglobal !== undefined ) {
@@ -162,26 +587,68 @@ export class MediaWikiRevisionController extends Controller {
 				req.params.errorformat as ErrorFormat
 			);
 		}
+		props = props.filter( ( prop ) => prop.length > 0 );
+		if ( props.some(
+			( prop ) => !MediaWikiRevisionController.PROPS.includes( prop as RevisionProp )
+		) ) {
+			this.setStatus( 422 );
+			return MediaWikiRevisionController.errorBadProps.build(
+				req.params.errorformat as ErrorFormat
+			);
+		}
+
+		const session = await optionalAuthentication( req );
+		return {
+			site,
+			revisions: revisions.map( ( revision ) => +revision ),
+			props: props as RevisionProp[],
+			session,
+			access: await RevisionAccess.get( site, session )
+		};
+	}
+
+	/**
+	 * Process a checked request for revisions. Cached revisions are used where
+	 * possible, and the rest are expanded with the shared expander of the wiki.
+	 *
+	 * @param request The checked request
+	 * @param options Options for processing
+	 * @return Expanded revisions for Deputy
+	 */
+	static async expandRevisions(
+		request: RevisionRequest,
+		options: RevisionExpansionOptions = {}
+	): Promise<RevisionsResponse> {
+		const { site, revisions, props, session, access } = request;
+		const deadline = options.timeout != null ? Date.now() + options.timeout : null;
+		const privileged = RevisionAccess.isPrivileged( access );
+		const store = privileged ?
+			MediaWikiRevisionController.privilegedRevisionStore :
+			MediaWikiRevisionController.revisionStore;
+
+		const getClient = (): Promise<mwn> => privileged ?
+			WikimediaSessionManager.getUserClient( site, session ) :
+			WikimediaSessionManager.getClient( site );
 
 		const finalRevisions: Record<number, Revision> = {};
+		let source: RevisionsResponse['source'] = 'cache';
 
 		/**
 		 * Revision IDs which must be processed.
 		 */
-		const forProcessing = [];
+		const forProcessing: number[] = [];
 
-		for ( const revisionIdString of revisions ) {
-			const revisionId = +revisionIdString;
+		for ( const revisionId of revisions ) {
 			if ( isNaN( revisionId ) || ( +revisionId ) < 1 ) {
 				finalRevisions[ revisionId ] = {
 					revid: revisionId,
 					invalid: true
 				};
-			} else if ( RevisionStore ) {
-				// TODO: Use privileged store here, based on auth.
-				const revision = await MediaWikiRevisionController.revisionStore.get( revisionId );
-				if ( revision ) {
-					finalRevisions[ revisionId ] = revision;
+			} else {
+				const revision = store.get( site.dbname, revisionId );
+				// Revisions fetched for a requester with fewer rights are fetched again.
+				if ( revision && RevisionAccess.isComplete( revision, access ) ) {
+					finalRevisions[ revisionId ] = RevisionAccess.strip( revision, access );
 				} else {
 					forProcessing.push( revisionId );
 				}
@@ -189,45 +656,237 @@ export class MediaWikiRevisionController extends Controller {
 		}
 
 		// Skip processing if there's nothing to process.
+		let pending: number[] = [];
 		if ( forProcessing.length > 0 ) {
-			// TODO: User authentication. In such case, use WikimediaSessionManager to create a
-			// client object from scratch. Whether this object should be persisted... /shrug
-			const client = await WikimediaSessionManager.getClient( site );
-			Log.debug( 'mwn for default client ready' );
-			const expander = new RevisionExpander( client );
+			const expander = await WikimediaSessionManager.getExpander(
+				site, privileged ? session : undefined
+			);
+			Log.debug( `Expander for ${ privileged ? 'user' : 'default' } client ready` );
 			const processingRevisions = expander.queue( forProcessing );
+
+			// Revisions are cached as soon as they are processed, even if that
+			// happens after the request timed out.
+			const processedRevisions = new Map<number, Revision>();
+			const revisionSources = new Map<number, RevisionSource>();
+			const processing = Object.entries( processingRevisions )
+				.map( ( [ revision, promise ] ) => promise.then( ( result ) => {
+					processedRevisions.set( +revision, result.revision );
+					revisionSources.set( +revision, result.source );
+					// Revisions from the replicas are incomplete, so they aren't cached.
+					if ( result.source === 'api' ) {
+						store.set( site.dbname, +revision, result.revision );
+					}
+					options.onProgress?.( processedRevisions.size, forProcessing.length );
+				}, ( e ) => {
+					// Revisions which failed are left pending, to be retried later.
+					Log.debug( `Failed to expand revision ${ revision }: ${ e.message }` );
+				} ) );
+			const waits: Promise<unknown>[] = [ Promise.all( processing ) ];
+			if ( options.timeout != null ) {
+				waits.push( timeoutPromise( options.timeout, 'Revision processing timed out' ) );
+			}
+			if ( options.signal ) {
+				waits.push( new Promise( ( resolve, reject ) => {
+					options.signal.addEventListener( 'abort', () => reject(
+						new Error( 'Revision processing was aborted' )
+					), { once: true } );
+				} ) );
+			}
 			try {
-				await Promise.race( [
-					Promise.all( Object.values( processingRevisions ) ),
-					timeoutPromise( 10000, 'Revision processing timed out' )
-				] );
-
-				Log.debug( `Revisions processed... ${
-					Object.keys( processingRevisions ).length
-				} total.` );
-				for ( const [ revision, promise ] of Object.entries( processingRevisions ) ) {
-					// At this point, the promises are done.
-					// The "await" takes it out of their shell.
-					const expandedRevision = await promise;
-					finalRevisions[ +revision ] = expandedRevision;
-					MediaWikiRevisionController.revisionStore.set( +revision, expandedRevision );
-				}
+				await Promise.race( waits );
 			} catch ( e ) {
-				const unfinishedRevisions = Object.entries( processingRevisions )
-					.filter( ( [ , promise ] ) => isPromisePending( promise ) )
-					.map( ( [ revision ] ) => revision );
-				Log.error( e, {
-					unfinishedRevisions,
-					unfinishedRevisionCount: unfinishedRevisions.length
+				throwIfAborted( options.signal );
+				Log.warn( e.message, {
+					processedRevisionCount: processedRevisions.size,
+					unfinishedRevisionCount: forProcessing.length - processedRevisions.size
 				} );
-				this.setStatus( 500 );
-				return MediaWikiRevisionController.errorExpanderTimeout.build(
-					req.params.errorformat as ErrorFormat
-				);
+			}
+
+			Log.debug( `Revisions processed... ${ processedRevisions.size } total.` );
+			for ( const [ revision, expandedRevision ] of processedRevisions ) {
+				finalRevisions[ revision ] = RevisionAccess.strip( expandedRevision, access );
+			}
+
+			for ( const revisionSource of revisionSources.values() ) {
+				if ( revisionSource === 'replica' ) {
+					source = 'replica';
+				} else if ( source === 'cache' ) {
+					source = 'api';
+				}
+			}
+
+			pending = forProcessing
+				.filter( ( revision ) => !processedRevisions.has( revision ) );
+		}
+
+		const addedTextProps = props.filter(
+			( prop ): prop is keyof AddedText => prop !== 'reverts'
+		);
+		if ( addedTextProps.length > 0 ) {
+			const unfinished = await MediaWikiRevisionController.addAddedText(
+				site, finalRevisions, addedTextProps, store, access, getClient, deadline
+			);
+			for ( const revision of unfinished ) {
+				delete finalRevisions[ revision ];
+				pending.push( revision );
+			}
+		}
+		if ( props.includes( 'reverts' ) ) {
+			const unfinished = await MediaWikiRevisionController.addRevertInformation(
+				site, finalRevisions, store, deadline
+			);
+			for ( const revision of unfinished ) {
+				delete finalRevisions[ revision ];
+				pending.push( revision );
+			}
+		}
+
+		if ( pending.length > 0 ) {
+			return {
+				version: 1,
+				revisions: finalRevisions,
+				source,
+				pending,
+				continue: pending.join( '|' )
+			};
+		}
+		return { version: 1, revisions: finalRevisions, source };
+	}
+
+	/**
+	 * Add the text added by each revision to the revisions. Added text is cached in the
+	 * revision store, and is only added to revisions whose text the requester can see.
+	 * Added text which is extracted after the deadline is still cached.
+	 *
+	 * @param site The wiki of the revisions
+	 * @param revisions The revisions to add to, mapped by revision ID
+	 * @param props The added text properties to add
+	 * @param store The revision store to cache added text in
+	 * @param access The requester's access rights
+	 * @param getClient Gets the client to fetch revision text with
+	 * @param deadline The time (as a UNIX timestamp in milliseconds) to stop waiting
+	 *   for added text at, if any
+	 * @return The IDs of revisions whose added text was not extracted in time
+	 * @private
+	 */
+	private static async addAddedText(
+		site: SiteMatrixSite,
+		revisions: Record<number, Revision & Partial<AddedText>>,
+		props: ( keyof AddedText )[],
+		store: RevisionStore,
+		access: RevisionAccessRights,
+		getClient: () => Promise<mwn>,
+		deadline: number | null = null
+	): Promise<number[]> {
+		const addedTexts: Record<number, AddedText> = {};
+		const forExtraction: { revid: number, parentid?: number }[] = [];
+		for ( const revision of Object.values( revisions ) ) {
+			if (
+				!isValidRevision( revision ) ||
+				!RevisionAccess.canView( revision, 'texthidden', access )
+			) {
+				continue;
+			}
+			const cached = store.getAddedText( site.dbname, revision.revid );
+			if ( cached ) {
+				addedTexts[ revision.revid ] = cached;
+			} else {
+				forExtraction.push( { revid: revision.revid, parentid: revision.parentid } );
+			}
+		}
+
+		let unfinished: number[] = [];
+		if ( forExtraction.length > 0 ) {
+			const extraction = ( async () => {
+				const extractor = new AddedTextExtractor( await getClient() );
+				const extracted = await extractor.extract( forExtraction );
+				for ( const [ revid, addedText ] of Object.entries( extracted ) ) {
+					store.setAddedText( site.dbname, +revid, addedText );
+				}
+				return extracted;
+			} )().catch( ( e ) => {
+				Log.warn( 'Failed to extract added text.', { error: e.message } );
+				return {};
+			} );
+			if ( await settlesBefore( extraction, deadline ) ) {
+				Object.assign( addedTexts, await extraction );
+			} else {
+				Log.warn( 'Added text extraction timed out.', {
+					unfinishedRevisionCount: forExtraction.length
+				} );
+				unfinished = forExtraction.map( ( revision ) => revision.revid );
+			}
+		}
+
+		for ( const [ revid, addedText ] of Object.entries( addedTexts ) ) {
+			for ( const prop of props ) {
+				revisions[ +revid ][ prop ] = addedText[ prop ];
+			}
+		}
+		return unfinished;
+	}
+
+	/**
+	 * Add revert information to the revisions, detected with the Wiki Replicas. Revert
+	 * information is cached in the revision store, even if it is detected after the
+	 * deadline. Revisions are left without it if the replicas cannot be reached.
+	 *
+	 * @param site The wiki of the revisions
+	 * @param revisions The revisions to add to, mapped by revision ID
+	 * @param store The revision store to cache revert information in
+	 * @param deadline The time (as a UNIX timestamp in milliseconds) to stop waiting
+	 *   for revert information at, if any
+	 * @return The IDs of revisions whose revert information was not detected in time
+	 * @private
+	 */
+	private static async addRevertInformation(
+		site: SiteMatrixSite,
+		revisions: Record<number, Revision & Partial<RevertInformation>>,
+		store: RevisionStore,
+		deadline: number | null = null
+	): Promise<number[]> {
+		const information: Record<number, RevertInformation> = {};
+		const forDetection: ExpandedRevision[] = [];
+		for ( const revision of Object.values( revisions ) ) {
+			if ( !isValidRevision( revision ) ) {
+				continue;
+			}
+			const cached = store.getRevertInformation( site.dbname, revision.revid );
+			if ( cached ) {
+				information[ revision.revid ] = cached;
+			} else {
+				forDetection.push( revision );
 			}
 		}
 
-		return { version: 1, revisions: finalRevisions };
+		let unfinished: number[] = [];
+		if ( forDetection.length > 0 ) {
+			const detection = ( async () => {
+				const conn = await ReplicaConnection.connect( site, 'web' );
+				const detected = await RevertDetector.detect( conn, forDetection );
+				for ( const [ revid, revertInformation ] of Object.entries( detected ) ) {
+					store.setRevertInformation( site.dbname, +revid, revertInformation );
+				}
+				return detected;
+			} )().catch( ( e ) => {
+				Log.warn( 'Failed to detect reverts.', { error: e.message, wiki: site.dbname } );
+				return {};
+			} );
+			if ( await settlesBefore( detection, deadline ) ) {
+				Object.assign( information, await detection );
+			} else {
+				Log.warn( 'Revert detection timed out.', {
+					unfinishedRevisionCount: forDetection.length,
+					wiki: site.dbname
+				} );
+				unfinished = forDetection.map( ( revision ) => revision.revid );
+			}
+		}
+
+		for ( const [ revid, revertInformation ] of Object.entries( information ) ) {
+			Object.assign( revisions[ +revid ], revertInformation );
+		}
+		return unfinished;
 	}
 
 }
@@ -0,0 +1,202 @@
+import {
+	Delete,
+	Get,
+	Path,
+	Produces,
+	Request,
+	Response,
+	Route,
+	SuccessResponse,
+	Tags
+} from 'tsoa';
+import AsyncTaskController, { TaskInformation } from '../../abstract/AsyncTaskController';
+import { ErrorResponse } from '../../../models/ErrorResponse';
+import express from 'express';
+import { AsyncTask } from '../../abstract/AsyncTask';
+import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
+import RevisionAccess from '../../../auth/RevisionAccess';
+import {
+	MediaWikiRevisionController,
+	RevisionRequest,
+	RevisionsResponse
+} from './MediaWikiRevisionController';
+
+/**
+ * Processes large revision requests in the background. Tasks are started by
+ * `POST /v1/revisions/{wiki}` when too many revisions are requested to process
+ * them within a single request.
+ */
+@Tags( 'Revisions' )
+@Route( 'v1/revisions/tasks' )
+export class MediaWikiRevisionTaskController
+	extends AsyncTaskController<RevisionRequest, RevisionsResponse> {
+
+	/**
+	 * @inheritDoc
+	 */
+	protected getTaskListId(): string {
+		return 'revisions';
+	}
+
+	/**
+	 *
+	 * @param options
+	 * @param task
+	 */
+	async process(
+		options: RevisionRequest,
+		task: AsyncTask<RevisionsResponse>
+	): Promise<void> {
+		task.setStatus( `Expanding ${ options.revisions.length } revisions` );
+		const result = await MediaWikiRevisionController.expandRevisions( options, {
+			signal: task.signal,
+			onProgress: ( processed, total ) => task.updateProgress( processed / total )
+		} );
+		task.finish( result );
+	}
+
+	/**
+	 * Start a task for a revision request. Identical requests from requesters who
+	 * can see the same data share a task. Tasks of privileged requesters can only
+	 * be accessed by the same user, and are never saved into the task store, since
+	 * their results may include deleted data.
+	 *
+	 * @param req The request object (`POST /v1/revisions/{wiki}`)
+	 * @param request The checked revision request
+	 * @return Relevant task information
+	 */
+	async startTask( req: express.Request, request: RevisionRequest ): Promise<TaskInformation> {
+		// Privileged requesters get revisions with their own access rights.
+		const owner = RevisionAccess.isPrivileged( request.access ) ?
+			request.session.username : null;
+		const information = await this.handleStartRequest( req, request, {
+			key: {
+				wiki: request.site.dbname,
+				revisions: Array.from( new Set( request.revisions ) ).sort( ( a, b ) => a - b ),
+				props: [ ...request.props ].sort(),
+				user: owner
+			},
+			wiki: request.site.dbname,
+			owner
+		} );
+
+		// Locations are relative to `/v1/revisions/{wiki}`, where the task was started.
+		if ( information.finished ) {
+			this.setHeader( 'Location', `tasks/${ information.id }` );
+		} else if ( this.getStatus() === 202 ) {
+			this.setHeader( 'Location', `tasks/${ information.id }/progress` );
+		}
+		return information;
+	}
+
+	/**
+	 * Get the result of a previously-requested task. The task ID must be
+	 * provided and it must be a valid task. Tasks started by privileged requesters
+	 * can only be accessed by the same user.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being queried
+	 * @return The expanded revisions, in the same format as `/v1/revisions/{wiki}`
+	 */
+	@Get( '{id}' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>( 401, 'Invalid session' )
+	@Response<ErrorResponse>(
+		409,
+		'Task not yet finished',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getRevisionTaskResult(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<RevisionsResponse | ErrorResponse> {
+		return this.handleResultRequest( req, id );
+	}
+
+	/**
+	 * Gets the progress of a previously-requested task. The task ID must be
+	 * provided and it must be a valid task.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being polled
+	 * @return Relevant task information
+	 */
+	@Get( '{id}/progress' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>( 401, 'Invalid session' )
+	@SuccessResponse( 200, 'OK' )
+	public async getRevisionTaskProgress(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | TaskInformation> {
+		return this.handleProgressRequest( req, id );
+	}
+
+	/**
+	 * Streams the progress of a previously-requested task as Server-Sent Events.
+	 * The task ID must be provided and it must be a valid task. Use this instead
+	 * of polling `:id/progress`.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being watched
+	 * @return An error, if the task does not exist or is run by another instance
+	 */
+	@Get( '{id}/events' )
+	@Produces( 'text/event-stream' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>( 401, 'Invalid session' )
+	@Response<ErrorResponse>(
+		409,
+		'Task run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getRevisionTaskEvents(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | void> {
+		return this.handleEventsRequest( req, id );
+	}
+
+	/**
+	 * Cancels a previously-requested task. The task ID must be provided and
+	 * it must be a valid task which has not yet finished.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being cancelled
+	 * @return Relevant task information
+	 */
+	@Delete( '{id}' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>( 401, 'Invalid session' )
+	@Response<ErrorResponse>(
+		409,
+		'Task already finished, or run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async cancelRevisionTask(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | TaskInformation> {
+		return this.handleCancelRequest( req, id );
+	}
+
+}
@@ -0,0 +1,49 @@
+import { Controller, Get, Route, Tags } from 'tsoa';
+import { RevisionStoreStats } from '../../../util/RevisionStore';
+import { CircuitBreakerStats } from '../../../util/CircuitBreaker';
+import RevisionExpander from '../../../processors/RevisionExpander';
+import { MediaWikiRevisionController } from '../revisions/MediaWikiRevisionController';
+
+interface DispatchStatus {
+	/**
+	 * Statistics of the revision stores.
+	 */
+	revisionStores: {
+		public: RevisionStoreStats;
+		privileged: RevisionStoreStats;
+	};
+	/**
+	 * Circuit breakers for the MediaWiki API of each wiki, mapped by database name.
+	 * Open breakers mean that revisions are fetched from the Wiki Replicas instead.
+	 */
+	apiCircuitBreakers: Record<string, CircuitBreakerStats>;
+}
+
+/**
+ * Reports the internal status of Dispatch.
+ */
+@Tags( 'Status' )
+@Route( 'v1/status' )
+export class StatusController extends Controller {
+
+	/**
+	 * Get the internal status of Dispatch, such as cache statistics.
+	 *
+	 * @return The status of Dispatch
+	 */
+	@Get()
+	public async getDispatchStatus(): Promise<DispatchStatus> {
+		const apiCircuitBreakers: Record<string, CircuitBreakerStats> = {};
+		for ( const [ wiki, breaker ] of RevisionExpander.breakers ) {
+			apiCircuitBreakers[ wiki ] = breaker.stats;
+		}
+		return {
+			revisionStores: {
+				public: MediaWikiRevisionController.revisionStore.stats,
+				privileged: MediaWikiRevisionController.privilegedRevisionStore.stats
+			},
+			apiCircuitBreakers
+		};
+	}
+
+}
@@ -1,8 +1,11 @@
 import {
 	BodyProp,
+	Delete,
 	Get,
 	Path,
 	Post,
+	Produces,
+	Queries,
 	Query,
 	Request,
 	Response,
@@ -11,16 +14,18 @@ import {
 	Tags
 } from 'tsoa';
 import AsyncTaskController, {
+	ResultContinuation,
+	ResultQuery,
 	TaskInformation
 } from '../../abstract/AsyncTaskController';
 import { ErrorResponse } from '../../../models/ErrorResponse';
 import express from 'express';
 import { SiteMatrixSite, WikimediaSiteMatrix } from '../../../util/WikimediaSiteMatrix';
-import Cache from 'stale-lru-cache';
 import UserDeletedPageFetcher from '../../../processors/UserDeletedPageFetcher';
 import { DeletedPage } from '../../../models/DeletedPage';
 import { AsyncTask } from '../../abstract/AsyncTask';
 import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
+import TitleFactory from '../../../util/Title';
 
 interface UserDeletedPagesResponse {
 	pages: Record<number, DeletedPage>;
@@ -40,11 +45,19 @@ export class UserDeletedPages
 			text: 'This wiki is not a supported Wikimedia wiki',
 			key: 'apierror-unsupportedwiki'
 		} );
+	static readonly errorInvalidUser = new ErrorResponseBuilder()
+		.add( 'invaliduser', {
+			text: 'The provided username is invalid',
+			key: 'apierror-invaliduser'
+		} );
 
-	static readonly requestCache = new Cache<string, TaskInformation>( {
-		maxSize: 100,
-		maxAge: 3600 // 1 hour
-	} );
+	protected readonly resultItemsKey = 'pages';
+	protected readonly resultSortFields = {
+		timestamp: ( page: DeletedPage ) =>
+			page.deleted === true ? null : page.deleted.timestamp,
+		created: ( page: DeletedPage ) => page.created,
+		length: ( page: DeletedPage ) => page.length
+	};
 
 	/**
 	 * @inheritDoc
@@ -65,7 +78,7 @@ export class UserDeletedPages
 		task: AsyncTask<UserDeletedPagesResponse>
 	): Promise<void> {
 		const udrf = new UserDeletedPageFetcher( options.site, 'web' );
-		task.finish( { pages: await udrf.fetch( options.user ) } );
+		task.finish( { pages: await udrf.fetch( options.user, task.signal ) } );
 	}
 
 	/**
@@ -79,6 +92,7 @@ export class UserDeletedPages
 	 * @param bypassCache Whether to skip the cache or not
 	 * @param user The username of the user
 	 * @param wiki The wiki to query for
+	 * @param callback A URL to send a POST request to once the task finishes or fails
 	 * @return Relevant task information
 	 */
 	@Post()
@@ -87,7 +101,8 @@ export class UserDeletedPages
 		@Request() req: express.Request,
 		@Query() bypassCache: boolean = false,
 		@BodyProp() user: string,
-		@BodyProp() wiki: string
+		@BodyProp() wiki: string,
+		@BodyProp() callback?: string
 	): Promise<TaskInformation | ErrorResponse> {
 		const site = await WikimediaSiteMatrix.i.getDbName( wiki );
 		if ( !site ) {
@@ -95,22 +110,23 @@ export class UserDeletedPages
 			return UserDeletedPages.errorUnsupportedWiki.build();
 		}
 
-		const cacheKey = JSON.stringify( { user, wiki } );
-		if (
-			UserDeletedPages.requestCache.has( cacheKey ) &&
-			!UserDeletedPages.requestCache.isStale( cacheKey ) &&
-			!bypassCache
-		) {
-			return this.handleProgressRequest(
-				req, UserDeletedPages.requestCache.get( cacheKey ).id
-			);
+		const callbackError = this.checkCallback( req, callback );
+		if ( callbackError ) {
+			return callbackError;
+		}
+
+		const username = await TitleFactory.normalizeUsername( site, user );
+		if ( !username ) {
+			this.setStatus( 400 );
+			return UserDeletedPages.errorInvalidUser.build();
 		}
 
-		const task = this.runTask( { site, user } );
-		UserDeletedPages.requestCache.set( cacheKey, task );
-		this.setStatus( 202 );
-		this.setHeader( 'Location', `${ task.id }/progress` );
-		return this.handleProgressRequest( req, task.id ) as TaskInformation;
+		return this.handleStartRequest( req, { site, user: username }, {
+			key: { wiki: site.dbname, user: username },
+			wiki: site.dbname,
+			bypassCache,
+			callback
+		} );
 	}
 
 	/**
@@ -119,6 +135,7 @@ export class UserDeletedPages
 	 *
 	 * @param req The request object
 	 * @param id The ID of the task being queried
+	 * @param query Parameters which select the parts of the result to return
 	 */
 	@Get( '{id}' )
 	@Response<ErrorResponse>(
@@ -126,6 +143,11 @@ export class UserDeletedPages
 		'Task ID not found',
 		ErrorResponseBuilder.generic.build()
 	)
+	@Response<ErrorResponse>(
+		400,
+		'Invalid result query',
+		ErrorResponseBuilder.generic.build()
+	)
 	@Response<ErrorResponse>(
 		409,
 		'Task not yet finished',
@@ -134,9 +156,10 @@ export class UserDeletedPages
 	@SuccessResponse( 200, 'OK' )
 	public async getUserDeletedPagesResult(
 		@Request() req: express.Request,
-		@Path() id: string
-	): Promise<UserDeletedPagesResponse | ErrorResponse> {
-		return this.handleResultRequest( req, id );
+		@Path() id: string,
+		@Queries() query: ResultQuery
+	): Promise<( UserDeletedPagesResponse & ResultContinuation ) | ErrorResponse> {
+		return this.handleResultRequest( req, id, query );
 	}
 	/**
 	 * Gets the progress of a previously-requested task. The task ID must be
@@ -153,11 +176,67 @@ export class UserDeletedPages
 		ErrorResponseBuilder.generic.build()
 	)
 	@SuccessResponse( 200, 'OK' )
-	public getUserDeletedPagesProgress(
+	public async getUserDeletedPagesProgress(
 		@Request() req: express.Request,
 		@Path() id: string
-	): ErrorResponse | TaskInformation {
+	): Promise<ErrorResponse | TaskInformation> {
 		return this.handleProgressRequest( req, id );
 	}
 
+	/**
+	 * Streams the progress of a previously-requested task as Server-Sent Events.
+	 * The task ID must be provided and it must be a valid task. Use this instead
+	 * of polling `:id/progress`.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being watched
+	 * @return An error, if the task does not exist or is run by another instance
+	 */
+	@Get( '{id}/events' )
+	@Produces( 'text/event-stream' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserDeletedPagesEvents(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | void> {
+		return this.handleEventsRequest( req, id );
+	}
+
+	/**
+	 * Cancels a previously-requested task. The task ID must be provided and
+	 * it must be a valid task which has not yet finished.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being cancelled
+	 * @return Relevant task information
+	 */
+	@Delete( '{id}' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task already finished, or run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async cancelUserDeletedPages(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | TaskInformation> {
+		return this.handleCancelRequest( req, id );
+	}
+
 }
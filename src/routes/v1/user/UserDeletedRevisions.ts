@@ -1,8 +1,11 @@
 import {
 	BodyProp,
+	Delete,
 	Get,
 	Path,
 	Post,
+	Produces,
+	Queries,
 	Query,
 	Request,
 	Response,
@@ -11,21 +14,37 @@ import {
 	Tags
 } from 'tsoa';
 import AsyncTaskController, {
+	PartialResult,
+	ResultContinuation,
+	ResultQuery,
 	TaskInformation
 } from '../../abstract/AsyncTaskController';
 import { ErrorResponse } from '../../../models/ErrorResponse';
 import express from 'express';
-import { DeletedRevision, TextDeletedRevision } from '../../../models/DeletedRevision';
+import { TextDeletedRevision } from '../../../models/DeletedRevision';
 import UserDeletedRevisionFetcher from '../../../processors/UserDeletedRevisionFetcher';
 import { SiteMatrixSite, WikimediaSiteMatrix } from '../../../util/WikimediaSiteMatrix';
 import ReplicaConnection from '../../../database/ReplicaConnection';
 import TitleFactory from '../../../util/Title';
-import Cache from 'stale-lru-cache';
-import { AsyncTask } from '../../abstract/AsyncTask';
+import { AsyncTask, AsyncTaskPhase } from '../../abstract/AsyncTask';
 import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
 
 interface UserDeletedRevisionsResponse {
-	revisions: Record<number, DeletedRevision>;
+	revisions: TextDeletedRevision[];
+	/**
+	 * The time when the data for this result was retrieved. Used as the high-water
+	 * mark when this result is refreshed.
+	 */
+	curtimestamp?: string;
+}
+
+interface UserDeletedRevisionsOptions {
+	site: SiteMatrixSite;
+	user: string;
+	/**
+	 * An earlier result to refresh. Only newer data is fetched and merged into it.
+	 */
+	previous?: UserDeletedRevisionsResponse;
 }
 
 /**
@@ -34,19 +53,25 @@ interface UserDeletedRevisionsResponse {
 @Tags( 'User' )
 @Route( 'v1/user/deleted-revisions' )
 export class UserDeletedRevisions
-	extends AsyncTaskController<{ site: SiteMatrixSite, user: string },
-		UserDeletedRevisionsResponse> {
+	extends AsyncTaskController<UserDeletedRevisionsOptions, UserDeletedRevisionsResponse> {
 
 	static readonly errorUnsupportedWiki = new ErrorResponseBuilder()
 		.add( 'unsupportedwiki', {
 			text: 'This wiki is not a supported Wikimedia wiki',
 			key: 'apierror-unsupportedwiki'
 		} );
+	static readonly errorInvalidUser = new ErrorResponseBuilder()
+		.add( 'invaliduser', {
+			text: 'The provided username is invalid',
+			key: 'apierror-invaliduser'
+		} );
+
+	static readonly phases: AsyncTaskPhase[] = [
+		{ id: 'replicas', name: 'Querying replicas for deleted revisions', weight: 1 },
+		{ id: 'logs', name: 'Attaching deletion logs', weight: 4 }
+	];
 
-	static readonly requestCache = new Cache<string, TaskInformation>( {
-		maxSize: 100,
-		maxAge: 3600 // 1 hour
-	} );
+	protected readonly resultItemsKey = 'revisions';
 
 	/**
 	 * @inheritDoc
@@ -58,50 +83,56 @@ export class UserDeletedRevisions
 	/**
 	 *
 	 * @param options
-	 * @param options.user
-	 * @param options.site
 	 * @param task
 	 */
 	async process(
-		options: { site: SiteMatrixSite, user: string },
+		options: UserDeletedRevisionsOptions,
 		task: AsyncTask<UserDeletedRevisionsResponse>
 	): Promise<void> {
+		const curtimestamp = new Date().toISOString();
+		const since = AsyncTaskController.getRefreshStart( options.previous?.curtimestamp );
 		const udrf = new UserDeletedRevisionFetcher( options.site, 'web' );
 		const conn = await ReplicaConnection.connect( options.site, 'web' );
 		const Title = await TitleFactory.get( options.site );
 		const usernameTitle =
 			new Title( options.user, Title.nameIdMap.user );
 
-		task.updateProgress( 0 );
-		const deletedRevsQueryStart = Date.now();
-		const deletedRevs = await udrf.getUserDeletedRevisions( conn, Title, usernameTitle );
-		const deletedRevsQueryDuration = Date.now() - deletedRevsQueryStart;
-
-		// Mark as 1/5 done.
-		task.updateProgress( 0.20 );
+		task.definePhases( UserDeletedRevisions.phases );
+		task.enterPhase( 'replicas' );
+		const changed = since ?
+			await udrf.getRevisionIdsDeletedSince( conn, Title, since, task.signal ) : [];
+		const deletedRevs = await udrf.getUserDeletedRevisions(
+			conn, Title, usernameTitle, task.signal, since, changed
+		);
 
+		task.enterPhase( 'logs' );
 		const upgradeBatchSize = 25;
-		const upgradeBatchCount = deletedRevs.length / upgradeBatchSize;
-		const upgradeStart = Date.now();
-		let upgradeDuration = null;
-		for ( let i = 0; i < Math.ceil( upgradeBatchCount ); i++ ) {
+		const upgradeBatchCount = Math.ceil( deletedRevs.length / upgradeBatchSize );
+		for ( let i = 0; i < upgradeBatchCount; i++ ) {
 			const batch = deletedRevs.slice( i * upgradeBatchSize, ( i + 1 ) * upgradeBatchSize );
-			await udrf.upgradeDeletedRevisions( conn, Title, batch );
-			if ( upgradeDuration == null ) {
-				upgradeDuration = Date.now() - upgradeStart;
-			}
-			// Set a minimum of 20% to avoid back-tracking the progress bar.
-			task.updateProgress( Math.max(
-				( deletedRevsQueryDuration + ( upgradeDuration * ( i + 1 ) ) ) /
-				( deletedRevsQueryDuration + ( upgradeBatchCount * upgradeDuration ) ),
-				0.20
-			) );
+			task.pushPartial(
+				await udrf.upgradeDeletedRevisions( conn, Title, batch, task.signal )
+			);
+			task.updatePhaseProgress(
+				( i + 1 ) / upgradeBatchCount,
+				`Attaching deletion logs (${
+					Math.min( ( i + 1 ) * upgradeBatchSize, deletedRevs.length )
+				} of ${ deletedRevs.length } revisions)`
+			);
 		}
 
 		// All batches done!
-		task.finish( {
-			revisions: deletedRevs as TextDeletedRevision[]
-		} );
+		let revisions = deletedRevs as TextDeletedRevision[];
+		if ( since ) {
+			// Newer data replaces the earlier result's data for the same revision.
+			// Revisions whose visibility changed but are missing from the newer data
+			// are no longer deleted, and are dropped.
+			const updated = new Set( revisions.map( ( r ) => r.revid ).concat( changed ) );
+			revisions = revisions
+				.concat( options.previous.revisions.filter( ( r ) => !updated.has( r.revid ) ) )
+				.sort( ( a, b ) => Date.parse( b.timestamp ) - Date.parse( a.timestamp ) );
+		}
+		task.finish( { revisions, curtimestamp } );
 	}
 
 	/**
@@ -115,6 +146,10 @@ export class UserDeletedRevisions
 	 * @param bypassCache Whether to skip the cache or not
 	 * @param user The username of the user
 	 * @param wiki The wiki to query for
+	 * @param callback A URL to send a POST request to once the task finishes or fails
+	 * @param refresh The ID of an earlier, finished task for the same user. Only
+	 *   revisions made or deleted since that task ran will be fetched, and merged into
+	 *   its result.
 	 * @return Relevant task information
 	 */
 	@Post()
@@ -123,7 +158,9 @@ export class UserDeletedRevisions
 		@Request() req: express.Request,
 		@Query() bypassCache: boolean = false,
 		@BodyProp() user: string,
-		@BodyProp() wiki: string
+		@BodyProp() wiki: string,
+		@BodyProp() callback?: string,
+		@BodyProp() refresh?: string
 	): Promise<TaskInformation | ErrorResponse> {
 		const site = await WikimediaSiteMatrix.i.getDbName( wiki );
 		if ( !site ) {
@@ -131,22 +168,30 @@ export class UserDeletedRevisions
 			return UserDeletedRevisions.errorUnsupportedWiki.build();
 		}
 
-		const cacheKey = JSON.stringify( { user, wiki } );
-		if (
-			UserDeletedRevisions.requestCache.has( cacheKey ) &&
-			!UserDeletedRevisions.requestCache.isStale( cacheKey ) &&
-			!bypassCache
-		) {
-			return this.handleProgressRequest(
-				req, UserDeletedRevisions.requestCache.get( cacheKey ).id
-			);
+		const callbackError = this.checkCallback( req, callback );
+		if ( callbackError ) {
+			return callbackError;
+		}
+
+		const username = await TitleFactory.normalizeUsername( site, user );
+		if ( !username ) {
+			this.setStatus( 400 );
+			return UserDeletedRevisions.errorInvalidUser.build();
+		}
+
+		const key = { wiki: site.dbname, user: username };
+		const previous = refresh ? await this.getRefreshResult( refresh, key ) : undefined;
+		if ( previous === null ) {
+			this.setStatus( 400 );
+			return AsyncTaskController.invalidRefresh.build();
 		}
 
-		const task = this.runTask( { site, user } );
-		UserDeletedRevisions.requestCache.set( cacheKey, task );
-		this.setStatus( 202 );
-		this.setHeader( 'Location', `${ task.id }/progress` );
-		return this.handleProgressRequest( req, task.id ) as TaskInformation;
+		return this.handleStartRequest( req, { site, user: username, previous }, {
+			key: { ...key, refresh },
+			wiki: site.dbname,
+			bypassCache,
+			callback
+		} );
 	}
 
 	/**
@@ -155,6 +200,7 @@ export class UserDeletedRevisions
 	 *
 	 * @param req The request object
 	 * @param id The ID of the task being queried
+	 * @param query Parameters which select the parts of the result to return
 	 */
 	@Get( '{id}' )
 	@Response<ErrorResponse>(
@@ -162,6 +208,11 @@ export class UserDeletedRevisions
 		'Task ID not found',
 		ErrorResponseBuilder.generic.build()
 	)
+	@Response<ErrorResponse>(
+		400,
+		'Invalid result query',
+		ErrorResponseBuilder.generic.build()
+	)
 	@Response<ErrorResponse>(
 		409,
 		'Task not yet finished',
@@ -170,9 +221,10 @@ export class UserDeletedRevisions
 	@SuccessResponse( 200, 'OK' )
 	public async getUserDeletedRevisionsResult(
 		@Request() req: express.Request,
-		@Path() id: string
-	): Promise<UserDeletedRevisionsResponse | ErrorResponse> {
-		return this.handleResultRequest( req, id );
+		@Path() id: string,
+		@Queries() query: ResultQuery
+	): Promise<( UserDeletedRevisionsResponse & ResultContinuation ) | ErrorResponse> {
+		return this.handleResultRequest( req, id, query );
 	}
 	/**
 	 * Gets the progress of a previously-requested task. The task ID must be
@@ -189,11 +241,93 @@ export class UserDeletedRevisions
 		ErrorResponseBuilder.generic.build()
 	)
 	@SuccessResponse( 200, 'OK' )
-	public getUserDeletedRevisionsProgress(
+	public async getUserDeletedRevisionsProgress(
 		@Request() req: express.Request,
 		@Path() id: string
-	): ErrorResponse | TaskInformation {
+	): Promise<ErrorResponse | TaskInformation> {
 		return this.handleProgressRequest( req, id );
 	}
 
+	/**
+	 * Get the deleted revisions found so far by a previously-requested task. This can be
+	 * used while the task is still running. The task ID must be provided and it
+	 * must be a valid task.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being watched
+	 * @param since The `cursor` returned by the previous request. Omit to get all items.
+	 * @return The items found so far
+	 */
+	@Get( '{id}/partial' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserDeletedRevisionsPartial(
+		@Request() req: express.Request,
+		@Path() id: string,
+		@Query() since?: number
+	): Promise<ErrorResponse | PartialResult<TextDeletedRevision>> {
+		return this.handlePartialRequest( req, id, since ) as
+			Promise<ErrorResponse | PartialResult<TextDeletedRevision>>;
+	}
+
+	/**
+	 * Streams the progress of a previously-requested task as Server-Sent Events.
+	 * The task ID must be provided and it must be a valid task. Use this instead
+	 * of polling `:id/progress`.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being watched
+	 * @return An error, if the task does not exist or is run by another instance
+	 */
+	@Get( '{id}/events' )
+	@Produces( 'text/event-stream' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserDeletedRevisionsEvents(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | void> {
+		return this.handleEventsRequest( req, id );
+	}
+
+	/**
+	 * Cancels a previously-requested task. The task ID must be provided and
+	 * it must be a valid task which has not yet finished.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being cancelled
+	 * @return Relevant task information
+	 */
+	@Delete( '{id}' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task already finished, or run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async cancelUserDeletedRevisions(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | TaskInformation> {
+		return this.handleCancelRequest( req, id );
+	}
+
 }
@@ -1,8 +1,11 @@
 import {
 	Body,
+	Delete,
 	Get,
 	Path,
 	Post,
+	Produces,
+	Queries,
 	Query,
 	Request,
 	Response,
@@ -11,21 +14,33 @@ import {
 	Tags
 } from 'tsoa';
 import AsyncTaskController, {
+	PartialResult,
+	ResultContinuation,
+	ResultQuery,
 	TaskInformation
 } from '../../abstract/AsyncTaskController';
 import { ErrorResponse } from '../../../models/ErrorResponse';
 import express from 'express';
 import { SiteMatrixSite, WikimediaSiteMatrix } from '../../../util/WikimediaSiteMatrix';
-import Cache from 'stale-lru-cache';
 import { ExpandedRevision } from '../../../models/Revision';
 import DatabaseRevisionFetcher from '../../../processors/DatabaseRevisionFetcher';
 import TitleFactory from '../../../util/Title';
 import ReplicaConnection from '../../../database/ReplicaConnection';
-import { AsyncTask } from '../../abstract/AsyncTask';
+import { AsyncTask, AsyncTaskPhase } from '../../abstract/AsyncTask';
 import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
+import toDbTimestamp from '../../../database/util/toDbTimestamp';
+import RevertDetector, { RevertInformation } from '../../../processors/RevertDetector';
 
 interface UserLargestEditsResponse {
-	revisions: Omit<ExpandedRevision, 'parsedcomment'>[];
+	/**
+	 * The largest edits. Revert information is only added if requested with `props`.
+	 */
+	revisions: ( Omit<ExpandedRevision, 'parsedcomment'> & Partial<RevertInformation> )[];
+	/**
+	 * The time when the data for this result was retrieved. Used as the high-water
+	 * mark when this result is refreshed.
+	 */
+	curtimestamp?: string;
 }
 
 interface UserLargestEditsConfiguration {
@@ -35,10 +50,29 @@ interface UserLargestEditsConfiguration {
 	namespaces?: number[];
 	withReverts?: boolean;
 	withoutTags?: string[];
+	/**
+	 * Additional properties to get: `reverts` for whether each edit was reverted or
+	 * was itself a revert, as with `props=reverts` on `/v1/revisions/{wiki}`.
+	 */
+	props?: 'reverts'[];
+	/**
+	 * An earlier result to refresh. Only newer edits are fetched and merged into it.
+	 */
+	previous?: UserLargestEditsResponse;
 }
 
-type UserLargestEditsBody = Omit<UserLargestEditsConfiguration, 'site'> & {
+type UserLargestEditsBody = Omit<UserLargestEditsConfiguration, 'site' | 'previous'> & {
 	wiki: string;
+	/**
+	 * A URL to send a POST request to once the task finishes or fails.
+	 */
+	callback?: string;
+	/**
+	 * The ID of an earlier, finished task with the same options. Only edits made since
+	 * that task ran will be fetched, and merged into its result. Cannot be used with
+	 * `offset`.
+	 */
+	refresh?: string;
 }
 
 /**
@@ -54,11 +88,32 @@ export class UserLargestEdits
 			text: 'This wiki is not a supported Wikimedia wiki',
 			key: 'apierror-unsupportedwiki'
 		} );
+	static readonly errorInvalidUser = new ErrorResponseBuilder()
+		.add( 'invaliduser', {
+			text: 'The provided username is invalid',
+			key: 'apierror-invaliduser'
+		} );
+	static readonly errorRefreshWithOffset = new ErrorResponseBuilder()
+		.add( 'refreshwithoffset', {
+			text: 'Results with an offset cannot be refreshed',
+			key: 'apierror-refreshwithoffset'
+		} );
 
-	static readonly requestCache = new Cache<string, TaskInformation>( {
-		maxSize: 100,
-		maxAge: 3600 // 1 hour
-	} );
+	static readonly phases: AsyncTaskPhase[] = [
+		{ id: 'edits', name: 'Collecting largest edits', weight: 1 }
+	];
+
+	/**
+	 * The maximum number of edits in a result.
+	 */
+	static readonly LIMIT = 50;
+	/**
+	 * The number of edits to process at once. Each chunk of edits is added to the
+	 * partial result as soon as it has been processed.
+	 */
+	static readonly PER_CHUNK = 10;
+
+	protected readonly resultItemsKey = 'revisions';
 
 	/**
 	 * @inheritDoc
@@ -79,9 +134,13 @@ export class UserLargestEdits
 		const conn = await ReplicaConnection.connect( options.site, 'web' );
 		const Title = await TitleFactory.get( options.site );
 		const user = new Title( options.user, 2 );
+		const curtimestamp = new Date().toISOString();
+		const since = AsyncTaskController.getRefreshStart( options.previous?.curtimestamp );
+		const reverts = options.props?.includes( 'reverts' ) ?? false;
 
-		// Get the revisions
-		const drf = await DatabaseRevisionFetcher.fetch( conn, Title, ( qb ) => {
+		task.definePhases( UserLargestEdits.phases );
+		task.enterPhase( 'edits' );
+		const fetched = await DatabaseRevisionFetcher.fetch( conn, Title, ( qb ) => {
 			qb
 				.select( {
 					diff: conn.raw(
@@ -105,15 +164,45 @@ export class UserLargestEdits
 			if ( options.withoutTags ) {
 				qb.withoutTags( options.withoutTags, 'main' );
 			}
+			if ( since ) {
+				qb.where( 'main.rev_timestamp', '>', toDbTimestamp( since ) );
+			}
 
 			return qb
-				.limit( 50 )
+				.limit( UserLargestEdits.LIMIT )
 				.offset( options.offset ?? 0 );
-		} );
-		task.updateProgress( 0.5 );
+		}, task.signal ) as UserLargestEditsResponse['revisions'];
+
+		// Newer edits are merged with the edits of the earlier result, if any.
+		const fetchedIds = new Set( fetched.map( ( r ) => r.revid ) );
+		const revisions = fetched
+			.concat( since ?
+				options.previous.revisions.filter( ( r ) => !fetchedIds.has( r.revid ) ) : [] )
+			.sort( ( a, b ) => b.diffsize - a.diffsize )
+			.slice( 0, UserLargestEdits.LIMIT );
 
-		await DatabaseRevisionFetcher.upgradeRevisionsWithParsedEditSummaries( options.site, drf );
-		task.finish( { revisions: drf } );
+		for ( let i = 0; i < revisions.length; i += UserLargestEdits.PER_CHUNK ) {
+			const chunk = revisions.slice( i, i + UserLargestEdits.PER_CHUNK );
+			const fresh = chunk.filter( ( r ) => fetchedIds.has( r.revid ) );
+			if ( fresh.length > 0 ) {
+				await DatabaseRevisionFetcher.upgradeRevisionsWithParsedEditSummaries(
+					options.site, fresh, task.signal
+				);
+			}
+			if ( reverts ) {
+				// Edits of the earlier result may have been reverted since.
+				await RevertDetector.upgradeRevisions(
+					conn, chunk as ExpandedRevision[], task.signal
+				);
+			}
+
+			task.pushPartial( chunk );
+			task.updatePhaseProgress(
+				( i + chunk.length ) / revisions.length,
+				`Processed ${ i + chunk.length } of ${ revisions.length } edits`
+			);
+		}
+		task.finish( { revisions, curtimestamp } );
 	}
 
 	/**
@@ -125,7 +214,7 @@ export class UserLargestEdits
 	 *
 	 * @param req The request object
 	 * @param bypassCache Whether to skip the cache or not
-	 * @param config
+	 * @param body
 	 * @return Relevant task information
 	 */
 	@Post()
@@ -133,30 +222,51 @@ export class UserLargestEdits
 	public async getUserLargestEdits(
 		@Request() req: express.Request,
 		@Query() bypassCache: boolean = false,
-		@Body() config: UserLargestEditsBody
+		@Body() body: UserLargestEditsBody
 	): Promise<TaskInformation | ErrorResponse> {
+		const { callback, refresh, ...config } = body;
 		const site = await WikimediaSiteMatrix.i.getDbName( config.wiki );
 		if ( !site ) {
 			this.setStatus( 400 );
 			return UserLargestEdits.errorUnsupportedWiki.build();
 		}
 
-		const cacheKey = JSON.stringify( config );
-		if (
-			UserLargestEdits.requestCache.has( cacheKey ) &&
-			!UserLargestEdits.requestCache.isStale( cacheKey ) &&
-			!bypassCache
-		) {
-			return this.handleProgressRequest(
-				req, UserLargestEdits.requestCache.get( cacheKey ).id
-			);
+		const callbackError = this.checkCallback( req, callback );
+		if ( callbackError ) {
+			return callbackError;
 		}
 
-		const task = this.runTask( Object.assign( {}, config, { site } ) );
-		UserLargestEdits.requestCache.set( cacheKey, task );
-		this.setStatus( 202 );
-		this.setHeader( 'Location', `${ task.id }/progress` );
-		return this.handleProgressRequest( req, task.id ) as TaskInformation;
+		const username = await TitleFactory.normalizeUsername( site, config.user );
+		if ( !username ) {
+			this.setStatus( 400 );
+			return UserLargestEdits.errorInvalidUser.build();
+		}
+
+		const options: Omit<UserLargestEditsConfiguration, 'site'> = {
+			user: username,
+			offset: config.offset ?? 0,
+			namespaces: config.namespaces,
+			withReverts: config.withReverts ?? false,
+			withoutTags: config.withoutTags,
+			props: config.props ? Array.from( new Set( config.props ) ).sort() : undefined
+		};
+		if ( refresh && config.offset ) {
+			this.setStatus( 400 );
+			return UserLargestEdits.errorRefreshWithOffset.build();
+		}
+		const key = { ...options, wiki: site.dbname };
+		const previous = refresh ? await this.getRefreshResult( refresh, key ) : undefined;
+		if ( previous === null ) {
+			this.setStatus( 400 );
+			return AsyncTaskController.invalidRefresh.build();
+		}
+
+		return this.handleStartRequest( req, { ...options, site, previous }, {
+			key: { ...key, refresh },
+			wiki: site.dbname,
+			bypassCache,
+			callback
+		} );
 	}
 
 	/**
@@ -165,6 +275,7 @@ export class UserLargestEdits
 	 *
 	 * @param req The request object
 	 * @param id The ID of the task being queried
+	 * @param query Parameters which select the parts of the result to return
 	 */
 	@Get( '{id}' )
 	@Response<ErrorResponse>(
@@ -172,6 +283,11 @@ export class UserLargestEdits
 		'Task ID not found',
 		ErrorResponseBuilder.generic.build()
 	)
+	@Response<ErrorResponse>(
+		400,
+		'Invalid result query',
+		ErrorResponseBuilder.generic.build()
+	)
 	@Response<ErrorResponse>(
 		409,
 		'Task not yet finished',
@@ -180,9 +296,10 @@ export class UserLargestEdits
 	@SuccessResponse( 200, 'OK' )
 	public async getUserLargestEditsResult(
 		@Request() req: express.Request,
-		@Path() id: string
-	): Promise<UserLargestEditsResponse | ErrorResponse> {
-		return this.handleResultRequest( req, id );
+		@Path() id: string,
+		@Queries() query: ResultQuery
+	): Promise<( UserLargestEditsResponse & ResultContinuation ) | ErrorResponse> {
+		return this.handleResultRequest( req, id, query );
 	}
 	/**
 	 * Gets the progress of a previously-requested task. The task ID must be
@@ -199,11 +316,95 @@ export class UserLargestEdits
 		ErrorResponseBuilder.generic.build()
 	)
 	@SuccessResponse( 200, 'OK' )
-	public getUserLargestEditsProgress(
+	public async getUserLargestEditsProgress(
 		@Request() req: express.Request,
 		@Path() id: string
-	): ErrorResponse | TaskInformation {
+	): Promise<ErrorResponse | TaskInformation> {
 		return this.handleProgressRequest( req, id );
 	}
 
+	/**
+	 * Get the revisions found so far by a previously-requested task. This can be
+	 * used while the task is still running. The task ID must be provided and it
+	 * must be a valid task. Revisions are found largest first, and the final result
+	 * lists the same revisions in the same order, so cursors stay valid after the
+	 * task finishes.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being watched
+	 * @param since The `cursor` returned by the previous request. Omit to get all items.
+	 * @return The items found so far
+	 */
+	@Get( '{id}/partial' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserLargestEditsPartial(
+		@Request() req: express.Request,
+		@Path() id: string,
+		@Query() since?: number
+	): Promise<ErrorResponse | PartialResult<UserLargestEditsResponse['revisions'][number]>> {
+		return this.handlePartialRequest( req, id, since ) as
+			Promise<ErrorResponse | PartialResult<UserLargestEditsResponse['revisions'][number]>>;
+	}
+
+	/**
+	 * Streams the progress of a previously-requested task as Server-Sent Events.
+	 * The task ID must be provided and it must be a valid task. Use this instead
+	 * of polling `:id/progress`.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being watched
+	 * @return An error, if the task does not exist or is run by another instance
+	 */
+	@Get( '{id}/events' )
+	@Produces( 'text/event-stream' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserLargestEditsEvents(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | void> {
+		return this.handleEventsRequest( req, id );
+	}
+
+	/**
+	 * Cancels a previously-requested task. The task ID must be provided and
+	 * it must be a valid task which has not yet finished.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being cancelled
+	 * @return Relevant task information
+	 */
+	@Delete( '{id}' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task already finished, or run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async cancelUserLargestEdits(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | TaskInformation> {
+		return this.handleCancelRequest( req, id );
+	}
+
 }
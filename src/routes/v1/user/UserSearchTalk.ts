@@ -1,8 +1,11 @@
 import {
 	BodyProp,
+	Delete,
 	Get,
 	Path,
 	Post,
+	Produces,
+	Queries,
 	Query,
 	Request,
 	Response,
@@ -11,25 +14,38 @@ import {
 	Tags
 } from 'tsoa';
 import AsyncTaskController, {
+	PartialResult,
+	ResultContinuation,
+	ResultQuery,
 	TaskInformation
 } from '../../abstract/AsyncTaskController';
 import { ErrorResponse } from '../../../models/ErrorResponse';
 import express from 'express';
 import { SiteMatrixSite, WikimediaSiteMatrix } from '../../../util/WikimediaSiteMatrix';
-import Cache from 'stale-lru-cache';
 import UserTalkPageFetcher, { PageRevisions } from '../../../processors/UserTalkPageFetcher';
 import { AsyncTask } from '../../abstract/AsyncTask';
 import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
+import TitleFactory from '../../../util/Title';
 
 type FilterType = string | string[] | { source: string, flags: string };
 
+interface UserSearchTalkOptions {
+	site: SiteMatrixSite;
+	user: string;
+	filter: FilterType;
+	/**
+	 * An earlier result to refresh. Only newer revisions are searched and merged into it.
+	 */
+	previous?: PageRevisions;
+}
+
 /**
  *
  */
 @Tags( 'User' )
 @Route( 'v1/user/search-talk' )
 export class UserSearchTalk extends AsyncTaskController<
-	{ site: SiteMatrixSite, user: string, filter: FilterType },
+	UserSearchTalkOptions,
 	PageRevisions
 > {
 
@@ -38,16 +54,18 @@ export class UserSearchTalk extends AsyncTaskController<
 			text: 'This wiki is not a supported Wikimedia wiki',
 			key: 'apierror-unsupportedwiki'
 		} );
+	static readonly errorInvalidUser = new ErrorResponseBuilder()
+		.add( 'invaliduser', {
+			text: 'The provided username is invalid',
+			key: 'apierror-invaliduser'
+		} );
 	static readonly errorInvalidFilter = new ErrorResponseBuilder()
 		.add( 'invalidfilter', {
 			text: 'A filter provided in the request is invalid',
 			key: 'apierror-invalidfilter'
 		} );
 
-	static readonly requestCache = new Cache<string, TaskInformation>( {
-		maxSize: 100,
-		maxAge: 3600 // 1 hour
-	} );
+	protected readonly resultItemsKey = 'revisions';
 
 	/**
 	 * @inheritDoc
@@ -59,20 +77,18 @@ export class UserSearchTalk extends AsyncTaskController<
 	/**
 	 *
 	 * @param options
-	 * @param options.user
-	 * @param options.site
-	 * @param options.filter
 	 * @param task
 	 */
 	async process(
-		options: { site: SiteMatrixSite, user: string, filter: FilterType },
+		options: UserSearchTalkOptions,
 		task: AsyncTask<PageRevisions>
 	): Promise<void> {
 		await UserTalkPageFetcher.fetch(
 			options.user,
 			options.site,
 			options.filter,
-			task
+			task,
+			options.previous
 		);
 	}
 
@@ -88,6 +104,9 @@ export class UserSearchTalk extends AsyncTaskController<
 	 * @param user The username of the user
 	 * @param wiki The wiki to query for
 	 * @param filter
+	 * @param callback A URL to send a POST request to once the task finishes or fails
+	 * @param refresh The ID of an earlier, finished task with the same filter. Only
+	 *   revisions made since that task ran will be searched, and merged into its result.
 	 * @return Relevant task information
 	 */
 	@Post()
@@ -97,13 +116,20 @@ export class UserSearchTalk extends AsyncTaskController<
 		@Query() bypassCache: boolean = false,
 		@BodyProp() user: string,
 		@BodyProp() wiki: string,
-		@BodyProp() filter: FilterType
+		@BodyProp() filter: FilterType,
+		@BodyProp() callback?: string,
+		@BodyProp() refresh?: string
 	): Promise<TaskInformation | ErrorResponse> {
 		const site = await WikimediaSiteMatrix.i.getDbName( wiki );
 		if ( !site ) {
 			this.setStatus( 400 );
 			return UserSearchTalk.errorUnsupportedWiki.build();
 		}
+
+		const callbackError = this.checkCallback( req, callback );
+		if ( callbackError ) {
+			return callbackError;
+		}
 		if ( Array.isArray( filter ) ) {
 			if ( filter.length > 0 ) {
 				this.setStatus( 400 );
@@ -119,22 +145,25 @@ export class UserSearchTalk extends AsyncTaskController<
 			}
 		}
 
-		const cacheKey = JSON.stringify( { user, wiki, filter } );
-		if (
-			UserSearchTalk.requestCache.has( cacheKey ) &&
-			!UserSearchTalk.requestCache.isStale( cacheKey ) &&
-			!bypassCache
-		) {
-			return this.handleProgressRequest(
-				req, UserSearchTalk.requestCache.get( cacheKey ).id
-			);
+		const username = await TitleFactory.normalizeUsername( site, user );
+		if ( !username ) {
+			this.setStatus( 400 );
+			return UserSearchTalk.errorInvalidUser.build();
 		}
 
-		const task = this.runTask( { site, user, filter } );
-		UserSearchTalk.requestCache.set( cacheKey, task );
-		this.setStatus( 202 );
-		this.setHeader( 'Location', `${ task.id }/progress` );
-		return this.handleProgressRequest( req, task.id ) as TaskInformation;
+		const key = { wiki: site.dbname, user: username, filter };
+		const previous = refresh ? await this.getRefreshResult( refresh, key ) : undefined;
+		if ( previous === null ) {
+			this.setStatus( 400 );
+			return AsyncTaskController.invalidRefresh.build();
+		}
+
+		return this.handleStartRequest( req, { site, user: username, filter, previous }, {
+			key: { ...key, refresh },
+			wiki: site.dbname,
+			bypassCache,
+			callback
+		} );
 	}
 
 	/**
@@ -143,6 +172,7 @@ export class UserSearchTalk extends AsyncTaskController<
 	 *
 	 * @param req The request object
 	 * @param id The ID of the task being queried
+	 * @param query Parameters which select the parts of the result to return
 	 */
 	@Get( '{id}' )
 	@Response<ErrorResponse>(
@@ -150,6 +180,11 @@ export class UserSearchTalk extends AsyncTaskController<
 		'Task ID not found',
 		ErrorResponseBuilder.generic.build()
 	)
+	@Response<ErrorResponse>(
+		400,
+		'Invalid result query',
+		ErrorResponseBuilder.generic.build()
+	)
 	@Response<ErrorResponse>(
 		409,
 		'Task not yet finished',
@@ -158,9 +193,10 @@ export class UserSearchTalk extends AsyncTaskController<
 	@SuccessResponse( 200, 'OK' )
 	public async getUserWarningsResult(
 		@Request() req: express.Request,
-		@Path() id: string
-	): Promise<PageRevisions | ErrorResponse> {
-		return this.handleResultRequest( req, id );
+		@Path() id: string,
+		@Queries() query: ResultQuery
+	): Promise<( PageRevisions & ResultContinuation ) | ErrorResponse> {
+		return this.handleResultRequest( req, id, query );
 	}
 	/**
 	 * Gets the progress of a previously-requested task. The task ID must be
@@ -177,11 +213,93 @@ export class UserSearchTalk extends AsyncTaskController<
 		ErrorResponseBuilder.generic.build()
 	)
 	@SuccessResponse( 200, 'OK' )
-	public getUserWarningsProgress(
+	public async getUserWarningsProgress(
 		@Request() req: express.Request,
 		@Path() id: string
-	): ErrorResponse | TaskInformation {
+	): Promise<ErrorResponse | TaskInformation> {
 		return this.handleProgressRequest( req, id );
 	}
 
+	/**
+	 * Get the matching revisions found so far by a previously-requested task. This can be
+	 * used while the task is still running. The task ID must be provided and it
+	 * must be a valid task.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being watched
+	 * @param since The `cursor` returned by the previous request. Omit to get all items.
+	 * @return The items found so far
+	 */
+	@Get( '{id}/partial' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserWarningsPartial(
+		@Request() req: express.Request,
+		@Path() id: string,
+		@Query() since?: number
+	): Promise<ErrorResponse | PartialResult<PageRevisions[ 'revisions' ][ number ]>> {
+		return this.handlePartialRequest( req, id, since ) as
+			Promise<ErrorResponse | PartialResult<PageRevisions[ 'revisions' ][ number ]>>;
+	}
+
+	/**
+	 * Streams the progress of a previously-requested task as Server-Sent Events.
+	 * The task ID must be provided and it must be a valid task. Use this instead
+	 * of polling `:id/progress`.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being watched
+	 * @return An error, if the task does not exist or is run by another instance
+	 */
+	@Get( '{id}/events' )
+	@Produces( 'text/event-stream' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserWarningsEvents(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | void> {
+		return this.handleEventsRequest( req, id );
+	}
+
+	/**
+	 * Cancels a previously-requested task. The task ID must be provided and
+	 * it must be a valid task which has not yet finished.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being cancelled
+	 * @return Relevant task information
+	 */
+	@Delete( '{id}' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task already finished, or run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async cancelUserWarnings(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | TaskInformation> {
+		return this.handleCancelRequest( req, id );
+	}
+
 }
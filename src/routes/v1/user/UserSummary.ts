@@ -0,0 +1,233 @@
+import {
+	BodyProp,
+	Delete,
+	Get,
+	Path,
+	Post,
+	Produces,
+	Query,
+	Request,
+	Response,
+	Route,
+	SuccessResponse,
+	Tags
+} from 'tsoa';
+import AsyncTaskController, { TaskInformation } from '../../abstract/AsyncTaskController';
+import { ErrorResponse } from '../../../models/ErrorResponse';
+import express from 'express';
+import { SiteMatrixSite, WikimediaSiteMatrix } from '../../../util/WikimediaSiteMatrix';
+import UserSummaryFetcher, {
+	UserContributionSummary
+} from '../../../processors/UserSummaryFetcher';
+import { AsyncTask, AsyncTaskPhase } from '../../abstract/AsyncTask';
+import ErrorResponseBuilder from '../../../util/ErrorResponseBuilder';
+import TitleFactory from '../../../util/Title';
+
+/**
+ *
+ */
+@Tags( 'User' )
+@Route( 'v1/user/summary' )
+export class UserSummary
+	extends AsyncTaskController<{ site: SiteMatrixSite, user: string }, UserContributionSummary> {
+
+	static readonly errorUnsupportedWiki = new ErrorResponseBuilder()
+		.add( 'unsupportedwiki', {
+			text: 'This wiki is not a supported Wikimedia wiki',
+			key: 'apierror-unsupportedwiki'
+		} );
+	static readonly errorInvalidUser = new ErrorResponseBuilder()
+		.add( 'invaliduser', {
+			text: 'The provided username is invalid',
+			key: 'apierror-invaliduser'
+		} );
+
+	static readonly phases: AsyncTaskPhase[] = [
+		{ id: 'live', name: 'Counting live edits', weight: 2 },
+		{ id: 'deleted', name: 'Counting deleted edits', weight: 1 }
+	];
+
+	/**
+	 * @inheritDoc
+	 */
+	protected getTaskListId(): string {
+		return 'user-summary';
+	}
+
+	/**
+	 *
+	 * @param options
+	 * @param options.user
+	 * @param options.site
+	 * @param task
+	 */
+	async process(
+		options: { site: SiteMatrixSite, user: string },
+		task: AsyncTask<UserContributionSummary>
+	): Promise<void> {
+		const usf = new UserSummaryFetcher( options.site, 'analytics' );
+		const summary = UserSummaryFetcher.emptySummary();
+
+		task.definePhases( UserSummary.phases );
+		task.enterPhase( 'live' );
+		await usf.fetchLive( options.user, summary, task.signal );
+		task.enterPhase( 'deleted' );
+		await usf.fetchDeleted( options.user, summary, task.signal );
+		task.finish( UserSummaryFetcher.finalize( summary ) );
+	}
+
+	/**
+	 * Collect statistics on the contributions of a user, such as edit counts (live and
+	 * deleted), pages created, bytes added to the main namespace, and monthly activity.
+	 * This is meant for checking whether a Contributor Copyright Investigation is
+	 * warranted.
+	 *
+	 * This will return an ID, which you are supposed to poll with
+	 * `:id/progress` until the task is finished (in which case,
+	 * you must get the final result on `:id`).
+	 *
+	 * @param req The request object
+	 * @param bypassCache Whether to skip the cache or not
+	 * @param user The username of the user
+	 * @param wiki The wiki to query for
+	 * @param callback A URL to send a POST request to once the task finishes or fails
+	 * @return Relevant task information
+	 */
+	@Post()
+	@SuccessResponse( 202, 'Accepted' )
+	public async getUserSummary(
+		@Request() req: express.Request,
+		@Query() bypassCache: boolean = false,
+		@BodyProp() user: string,
+		@BodyProp() wiki: string,
+		@BodyProp() callback?: string
+	): Promise<TaskInformation | ErrorResponse> {
+		const site = await WikimediaSiteMatrix.i.getDbName( wiki );
+		if ( !site ) {
+			this.setStatus( 400 );
+			return UserSummary.errorUnsupportedWiki.build();
+		}
+
+		const callbackError = this.checkCallback( req, callback );
+		if ( callbackError ) {
+			return callbackError;
+		}
+
+		const username = await TitleFactory.normalizeUsername( site, user );
+		if ( !username ) {
+			this.setStatus( 400 );
+			return UserSummary.errorInvalidUser.build();
+		}
+
+		return this.handleStartRequest( req, { site, user: username }, {
+			key: { wiki: site.dbname, user: username },
+			wiki: site.dbname,
+			bypassCache,
+			callback
+		} );
+	}
+
+	/**
+	 * Get the result of a previously-requested task. The task ID must be
+	 * provided and it must be a valid task.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being queried
+	 */
+	@Get( '{id}' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task not yet finished',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserSummaryResult(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<UserContributionSummary | ErrorResponse> {
+		return this.handleResultRequest( req, id );
+	}
+	/**
+	 * Gets the progress of a previously-requested task. The task ID must be
+	 * provided and it must be a valid task.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being polled
+	 * @return Relevant task information
+	 */
+	@Get( '{id}/progress' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserSummaryProgress(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | TaskInformation> {
+		return this.handleProgressRequest( req, id );
+	}
+
+	/**
+	 * Streams the progress of a previously-requested task as Server-Sent Events.
+	 * The task ID must be provided and it must be a valid task. Use this instead
+	 * of polling `:id/progress`.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being watched
+	 * @return An error, if the task does not exist or is run by another instance
+	 */
+	@Get( '{id}/events' )
+	@Produces( 'text/event-stream' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async getUserSummaryEvents(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | void> {
+		return this.handleEventsRequest( req, id );
+	}
+
+	/**
+	 * Cancels a previously-requested task. The task ID must be provided and
+	 * it must be a valid task which has not yet finished.
+	 *
+	 * @param req The request object
+	 * @param id The ID of the task being cancelled
+	 * @return Relevant task information
+	 */
+	@Delete( '{id}' )
+	@Response<ErrorResponse>(
+		404,
+		'Task ID not found',
+		ErrorResponseBuilder.generic.build()
+	)
+	@Response<ErrorResponse>(
+		409,
+		'Task already finished, or run by another instance',
+		ErrorResponseBuilder.generic.build()
+	)
+	@SuccessResponse( 200, 'OK' )
+	public async cancelUserSummary(
+		@Request() req: express.Request,
+		@Path() id: string
+	): Promise<ErrorResponse | TaskInformation> {
+		return this.handleCancelRequest( req, id );
+	}
+
+}
@@ -0,0 +1,202 @@
+import Log from './Log';
+
+/**
+ * The state of a {@link CircuitBreaker}.
+ * - `closed` – calls go through normally
+ * - `open` – calls are skipped, and the fallback is used instead
+ * - `half-open` – a single trial call goes through to check if the service recovered
+ */
+export type CircuitBreakerState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for a {@link CircuitBreaker}.
+ */
+export interface CircuitBreakerOptions {
+	/**
+	 * The number of recent calls used to compute the failure rate.
+	 */
+	windowSize?: number;
+	/**
+	 * The number of calls needed before the breaker can open.
+	 */
+	minimumCalls?: number;
+	/**
+	 * The rate of failed calls (from 0 to 1) at which the breaker opens.
+	 */
+	failureThreshold?: number;
+	/**
+	 * How long (in milliseconds) a call can take before it counts as failed, even
+	 * if it succeeded.
+	 */
+	slowCallTime?: number;
+	/**
+	 * How long (in milliseconds) the breaker stays open before trying a call again.
+	 */
+	resetTimeout?: number;
+}
+
+/**
+ * Statistics of a {@link CircuitBreaker}.
+ */
+export interface CircuitBreakerStats {
+	state: CircuitBreakerState;
+	/**
+	 * The rate of failed calls (from 0 to 1) among recent calls.
+	 */
+	failureRate: number;
+	/**
+	 * The number of recent calls.
+	 */
+	calls: number;
+}
+
+/**
+ * Switches from a service to a fallback when the service is failing or slow. Each
+ * call is recorded as either successful or failed (which includes slow calls). Once
+ * too many recent calls failed, the breaker opens and all calls use the fallback.
+ * After a while, a single trial call is let through; if it succeeds, the breaker
+ * closes again.
+ */
+export default class CircuitBreaker {
+
+	static readonly DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+		windowSize: 20,
+		minimumCalls: 5,
+		failureThreshold: 0.5,
+		slowCallTime: 5e3,
+		resetTimeout: 30e3
+	};
+
+	readonly options: Required<CircuitBreakerOptions>;
+
+	private currentState: CircuitBreakerState = 'closed';
+	/**
+	 * Results of recent calls, oldest first. `true` means the call failed.
+	 *
+	 * @private
+	 */
+	private results: boolean[] = [];
+	private openedAt: number;
+	private trialRunning = false;
+
+	/**
+	 * @param name The name of the breaker, used in logs
+	 * @param options Options for the breaker
+	 */
+	constructor( readonly name: string, options: CircuitBreakerOptions = {} ) {
+		this.options = Object.assign( {}, CircuitBreaker.DEFAULT_OPTIONS, options );
+	}
+
+	/**
+	 * @return The current state of the breaker
+	 */
+	get state(): CircuitBreakerState {
+		if (
+			this.currentState === 'open' &&
+			Date.now() - this.openedAt >= this.options.resetTimeout
+		) {
+			this.currentState = 'half-open';
+		}
+		return this.currentState;
+	}
+
+	/**
+	 * @return Statistics for this breaker
+	 */
+	get stats(): CircuitBreakerStats {
+		return {
+			state: this.state,
+			failureRate: this.failureRate,
+			calls: this.results.length
+		};
+	}
+
+	/**
+	 * @return The rate of failed calls (from 0 to 1) among recent calls
+	 */
+	get failureRate(): number {
+		if ( this.results.length === 0 ) {
+			return 0;
+		}
+		return this.results.filter( ( failed ) => failed ).length / this.results.length;
+	}
+
+	/**
+	 * Call a service through the breaker. If the breaker is open, or the call fails,
+	 * the fallback is used instead.
+	 *
+	 * @param func The service call
+	 * @param fallback The fallback, called with the error if the service call failed
+	 * @return The result of the service call or of the fallback
+	 */
+	async run<T>(
+		func: () => Promise<T>,
+		fallback: ( error?: Error ) => Promise<T>
+	): Promise<T> {
+		const state = this.state;
+		if ( state === 'open' || ( state === 'half-open' && this.trialRunning ) ) {
+			return fallback();
+		}
+
+		const trial = state === 'half-open';
+		this.trialRunning = this.trialRunning || trial;
+		const startTime = Date.now();
+		try {
+			const result = await func();
+			this.record( Date.now() - startTime >= this.options.slowCallTime, trial );
+			return result;
+		} catch ( e ) {
+			this.record( true, trial );
+			return fallback( e );
+		} finally {
+			if ( trial ) {
+				this.trialRunning = false;
+			}
+		}
+	}
+
+	/**
+	 * Record the result of a call, and open or close the breaker accordingly.
+	 *
+	 * @param failed Whether the call failed or was slow
+	 * @param trial Whether the call was the trial call of a half-open breaker
+	 * @private
+	 */
+	private record( failed: boolean, trial: boolean ) {
+		if ( trial ) {
+			this.results = [];
+			if ( failed ) {
+				this.open();
+			} else {
+				Log.info( `Circuit breaker "${ this.name }" closed.` );
+				this.currentState = 'closed';
+			}
+			return;
+		}
+
+		this.results.push( failed );
+		if ( this.results.length > this.options.windowSize ) {
+			this.results.shift();
+		}
+		if (
+			this.currentState === 'closed' &&
+			this.results.length >= this.options.minimumCalls &&
+			this.failureRate >= this.options.failureThreshold
+		) {
+			this.results = [];
+			this.open();
+		}
+	}
+
+	/**
+	 * Open the breaker.
+	 *
+	 * @private
+	 */
+	private open() {
+		Log.warn( `Circuit breaker "${ this.name }" opened.` );
+		this.currentState = 'open';
+		this.openedAt = Date.now();
+	}
+
+}
@@ -0,0 +1,61 @@
+/* eslint-disable security/detect-non-literal-fs-filename */
+
+import fs from 'fs/promises';
+import path from 'path';
+import RevisionStorePersistence, { PersistedRevisionStore } from './RevisionStorePersistence';
+
+/**
+ * Saves revision stores as JSON files in a directory.
+ */
+export default class FileRevisionStorePersistence extends RevisionStorePersistence {
+
+	/**
+	 * @param directory The directory to save revision stores in
+	 */
+	constructor( readonly directory: string ) {
+		super();
+	}
+
+	/**
+	 * Creates the directory, if it doesn't exist yet.
+	 */
+	async init(): Promise<void> {
+		await fs.mkdir( this.directory, { recursive: true } );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async load( store: string ): Promise<PersistedRevisionStore | null> {
+		let contents: string;
+		try {
+			contents = await fs.readFile( this.getPath( store ), 'utf8' );
+		} catch ( e ) {
+			if ( e.code === 'ENOENT' ) {
+				return null;
+			}
+			throw e;
+		}
+		return JSON.parse( contents );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async save( store: string, contents: PersistedRevisionStore ): Promise<void> {
+		// Write to a temporary file first, so that a crash never leaves a partial file.
+		const file = this.getPath( store );
+		await fs.writeFile( `${ file }.tmp`, JSON.stringify( contents ), 'utf8' );
+		await fs.rename( `${ file }.tmp`, file );
+	}
+
+	/**
+	 * @param store The name of the revision store
+	 * @return The path of the file which holds the store's revisions
+	 * @private
+	 */
+	private getPath( store: string ): string {
+		return path.resolve( this.directory, `revisions-${ store }.json` );
+	}
+
+}
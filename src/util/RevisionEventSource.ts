@@ -0,0 +1,105 @@
+import { EventEmitter } from 'events';
+import type MediaWikiPageDeleteEvent
+	from 'wikimedia-streams/build/streams/MediaWikiPageDeleteEvent';
+import type MediaWikiPageMoveEvent
+	from 'wikimedia-streams/build/streams/MediaWikiPageMoveEvent';
+import type MediaWikiPageUndeleteEvent
+	from 'wikimedia-streams/build/streams/MediaWikiPageUndeleteEvent';
+import type MediaWikiRevisionTagsChangeEvent
+	from 'wikimedia-streams/build/streams/MediaWikiRevisionTagsChangeEvent';
+import type MediaWikiRevisionVisibilityChangeEvent
+	from 'wikimedia-streams/build/streams/MediaWikiRevisionVisibilityChangeEvent';
+
+/**
+ * The events which revision stores follow, mapped by stream name.
+ */
+export interface RevisionEvents {
+	'mediawiki.revision-visibility-change': MediaWikiRevisionVisibilityChangeEvent;
+	'mediawiki.revision-tags-change': MediaWikiRevisionTagsChangeEvent;
+	'mediawiki.page-delete': MediaWikiPageDeleteEvent;
+	'mediawiki.page-undelete': MediaWikiPageUndeleteEvent;
+	'mediawiki.page-move': MediaWikiPageMoveEvent;
+}
+
+export type RevisionEventStream = keyof RevisionEvents;
+
+/**
+ * A listener for events of a stream.
+ *
+ * @param data The event data
+ * @param id The ID of the event, which can be used to resume the source from this event
+ */
+export type RevisionEventListener<T extends RevisionEventStream> =
+	( data: RevisionEvents[T], id: string ) => void;
+
+/**
+ * A source of the events followed by revision stores. The real source is Wikimedia
+ * EventStreams (see {@link WikimediaRevisionEventSource}), but stores can be driven by
+ * any source.
+ *
+ * Besides stream events, sources emit `open` once connected, `close` once disconnected,
+ * and `error` when an error occurs.
+ */
+export default abstract class RevisionEventSource extends EventEmitter {
+
+	/**
+	 * The streams which revision stores follow.
+	 */
+	static readonly STREAMS: readonly RevisionEventStream[] = [
+		'mediawiki.revision-visibility-change',
+		'mediawiki.revision-tags-change',
+		'mediawiki.page-delete',
+		'mediawiki.page-undelete',
+		'mediawiki.page-move'
+	];
+
+	/**
+	 * @return `true` if the source is connected and receiving events.
+	 */
+	abstract get open(): boolean;
+
+	/**
+	 * Start receiving events. Does nothing if the source is already open.
+	 *
+	 * @param lastEventId The ID of the last event received before, to resume from.
+	 *   If not given, the source starts from the latest event.
+	 */
+	abstract start( lastEventId?: string ): void;
+
+	/**
+	 * Stop receiving events.
+	 */
+	abstract stop(): void;
+
+	/**
+	 * Listen for events of a stream.
+	 *
+	 * @param stream The stream to listen to
+	 * @param listener The listener
+	 * @return This source
+	 */
+	onEvent<T extends RevisionEventStream>(
+		stream: T,
+		listener: RevisionEventListener<T>
+	): this {
+		return this.on( stream, listener );
+	}
+
+	/**
+	 * Deliver an event to the listeners of its stream.
+	 *
+	 * @param stream The stream of the event
+	 * @param data The event data
+	 * @param id The ID of the event
+	 * @return `true` if the event had listeners
+	 * @protected
+	 */
+	protected emitEvent<T extends RevisionEventStream>(
+		stream: T,
+		data: RevisionEvents[T],
+		id: string
+	): boolean {
+		return this.emit( stream, data, id );
+	}
+
+}
@@ -1,85 +1,598 @@
-import WikimediaStream, { EventSourceState, WikimediaEventStream } from 'wikimedia-streams';
 import { isValidRevision, Revision } from '../models/Revision';
-import toolUserAgent from './func/toolUserAgent';
+import RevisionStorePersistence from './RevisionStorePersistence';
+import RevisionEventSource from './RevisionEventSource';
+import WikimediaRevisionEventSource from './WikimediaRevisionEventSource';
+import { AddedText } from '../processors/AddedTextExtractor';
+import { RevertInformation } from '../processors/RevertDetector';
 import Log from './Log';
+import backgroundInterval from './func/backgroundInterval';
 
 /**
- * Like a map but for revisions. Once initialized, this will hook onto a Wikimedia
+ * Options for a {@link RevisionStore}.
+ */
+export interface RevisionStoreOptions {
+	/**
+	 * The name of the store. Used to tell apart the revisions of different stores
+	 * when persisted.
+	 */
+	name?: string;
+	/**
+	 * The maximum number of revisions to keep. Defaults to {@link RevisionStore.MAX_SIZE}.
+	 */
+	maxSize?: number;
+	/**
+	 * How long (in milliseconds) to keep revisions for. Defaults to
+	 * {@link RevisionStore.MAX_AGE}.
+	 */
+	maxAge?: number;
+	/**
+	 * Where to receive revision and page events from. Defaults to Wikimedia EventStreams.
+	 */
+	eventSource?: RevisionEventSource;
+}
+
+/**
+ * Statistics of a {@link RevisionStore}, counted since the process started.
+ */
+export interface RevisionStoreStats {
+	size: number;
+	maxSize: number;
+	/**
+	 * The number of lookups which found a revision.
+	 */
+	hits: number;
+	/**
+	 * The number of lookups which did not find a revision (including expired ones).
+	 */
+	misses: number;
+	/**
+	 * The number of revisions dropped to stay within the maximum size.
+	 */
+	evictions: number;
+	/**
+	 * The number of revisions dropped because they were too old.
+	 */
+	expirations: number;
+	/**
+	 * The number of times that the store was cleared because events were missed.
+	 */
+	invalidations: number;
+}
+
+/**
+ * A revision kept by a {@link RevisionStore}.
+ */
+interface RevisionStoreEntry {
+	/**
+	 * The database name of the wiki of the revision.
+	 */
+	wiki: string;
+	revid: number;
+	revision: Revision;
+	expireTime: number;
+	addedText?: AddedText;
+	revertInformation?: RevertInformation;
+}
+
+/**
+ * Like a map but for revisions. Revisions are stored by wiki and revision ID, as
+ * revision IDs are only unique within a wiki. Once initialized, this will hook onto a Wikimedia
  * stream and listen for deleted revisions and immediately remove any cached revisions
  * that may have related data for safety. It will also listen for tag changes to append
  * tags to the appropriate revision when needed.
  *
+ * Page events are followed as well: revisions of deleted or restored
+ * pages are removed, and revisions of moved pages get the new page title.
+ *
+ * The store is bounded: revisions expire after a maximum age, and the least recently
+ * used revisions are evicted once the store is full.
+ *
+ * The ID of the last stream event is kept, so that the stream can pick up where it left
+ * off after a disconnect or restart (using the `Last-Event-ID` header). If the stream
+ * cannot be resumed, all revisions are dropped instead, as they may have missed changes.
+ *
+ * The text added by each revision and its revert information can be cached alongside
+ * it (see {@link setAddedText} and {@link setRevertInformation}). These are dropped
+ * whenever the revision is replaced or removed. Revert information is also dropped
+ * when the tags of the revision change.
+ *
  * For safety, sets cannot occur if the stream is closed.
  */
-export default class RevisionStore extends Map<number, Revision> {
+export default class RevisionStore {
+
+	/**
+	 * The default maximum number of revisions in a store. Can be set with the
+	 * `DISPATCH_REVISION_STORE_SIZE` environment variable.
+	 */
+	static readonly MAX_SIZE = +( process.env.DISPATCH_REVISION_STORE_SIZE ?? 10000 ) || 10000;
+	/**
+	 * The default maximum age (in milliseconds) of revisions in a store. Can be set in
+	 * seconds with the `DISPATCH_REVISION_STORE_MAX_AGE` environment variable.
+	 */
+	static readonly MAX_AGE =
+		+( process.env.DISPATCH_REVISION_STORE_MAX_AGE ?? 86400 ) * 1e3 || 86400e3;
+	/**
+	 * How often (in milliseconds) persisted stores are saved.
+	 */
+	static readonly SAVE_INTERVAL = 300e3;
+	/**
+	 * How long (in milliseconds) after the last event the stream can still be resumed.
+	 * This is kept well within the time that EventStreams retains events for.
+	 */
+	static readonly RESUME_WINDOW = 3 * 86400e3;
 
 	/**
 	 * Create a new RevisionStore.
 	 *
 	 * @param privileged Whether this revision store is running as privileged. A
-	 * privileged revision store will NOT listen for changes to revision visibility,
-	 * as it is assumed that the user has access to all revisions. Note that this
-	 * can cause suppressed data to leak out into user interfaces. Use sparingly
+	 * privileged revision store keeps deleted data, and drops revisions whose
+	 * visibility changed instead of blanking their hidden fields, so that they are
+	 * fetched again with up-to-date visibility flags. Revisions from a privileged
+	 * store must be stripped for each requester (see RevisionAccess) before use,
 	 * and only behind authenticated interfaces.
 	 * @param autostart
-	 * @param {...any} args Arguments to be passed to the Map constructor
+	 * @param options Options for the store
 	 */
-	constructor( private readonly privileged?: boolean, autostart?: boolean, ...args: any[] ) {
-		super( ...args );
+	constructor(
+		private readonly privileged?: boolean,
+		autostart?: boolean,
+		options: RevisionStoreOptions = {}
+	) {
+		this.name = options.name ?? this.storeId;
+		this.maxSize = options.maxSize ?? RevisionStore.MAX_SIZE;
+		this.maxAge = options.maxAge ?? RevisionStore.MAX_AGE;
+		this.source = options.eventSource ?? new WikimediaRevisionEventSource();
 		if ( autostart ) {
 			this.startStream();
 		}
 	}
 
 	readonly storeId = Math.random().toString( 16 ).slice( 2, 8 );
-	stream: WikimediaStream;
+	readonly name: string;
+	readonly maxSize: number;
+	readonly maxAge: number;
+	readonly source: RevisionEventSource;
 
 	/**
-	 * @inheritDoc
+	 * Stored revisions, in order of least to most recently used, mapped by
+	 * {@link RevisionStore.key}.
+	 *
+	 * @private
+	 */
+	private readonly revisions = new Map<string, RevisionStoreEntry>();
+	private persistence: RevisionStorePersistence;
+	private saveInterval: NodeJS.Timeout;
+	/**
+	 * Whether {@link startStream} was called before.
+	 *
+	 * @private
 	 */
-	set( key: number, value: Revision ): this {
-		if ( !this.stream || this.stream.status !== EventSourceState.Open ) {
-			Log.warn( `Cannot set revision ${key} while stream is closed.` );
+	private streamStarted = false;
+
+	/**
+	 * The ID of the last event received from the stream.
+	 *
+	 * @private
+	 */
+	private lastEventId: string;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) of the last event received from
+	 * the stream.
+	 *
+	 * @private
+	 */
+	private lastEventTime: number;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) when the stream was disconnected,
+	 * or `null` if it is connected.
+	 *
+	 * @private
+	 */
+	private disconnectedAt: number = null;
+
+	private hits = 0;
+	private misses = 0;
+	private evictions = 0;
+	private expirations = 0;
+	private invalidations = 0;
+
+	/**
+	 * @return The number of revisions in the store, including expired ones which
+	 *   have not been dropped yet.
+	 */
+	get size(): number {
+		return this.revisions.size;
+	}
+
+	/**
+	 * @return Statistics for this store
+	 */
+	get stats(): RevisionStoreStats {
+		return {
+			size: this.size,
+			maxSize: this.maxSize,
+			hits: this.hits,
+			misses: this.misses,
+			evictions: this.evictions,
+			expirations: this.expirations,
+			invalidations: this.invalidations
+		};
+	}
+
+	/**
+	 * Get the key of a revision in the store.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @return The key of the revision
+	 */
+	static key( wiki: string, revid: number ): string {
+		return `${ wiki }:${ revid }`;
+	}
+
+	/**
+	 * Check if a revision is in the store. This does not count as a lookup.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @return `true` if the revision is in the store and has not expired
+	 */
+	has( wiki: string, revid: number ): boolean {
+		return this.peek( RevisionStore.key( wiki, revid ) ) !== undefined;
+	}
+
+	/**
+	 * Get a revision from the store, marking it as recently used.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @return The revision, or `undefined` if it is not in the store or has expired
+	 */
+	get( wiki: string, revid: number ): Revision | undefined {
+		const key = RevisionStore.key( wiki, revid );
+		const revision = this.peek( key );
+		if ( revision === undefined ) {
+			this.misses++;
+			return undefined;
+		}
+		this.hits++;
+		// Move to the end of the map, which holds the most recently used revisions.
+		const entry = this.revisions.get( key );
+		this.revisions.delete( key );
+		this.revisions.set( key, entry );
+		return revision;
+	}
+
+	/**
+	 * Add a revision to the store, evicting the least recently used revisions
+	 * if the store is full.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @param value The revision
+	 * @return This store
+	 */
+	set( wiki: string, revid: number, value: Revision ): this {
+		if ( !this.source.open ) {
+			Log.warn( `Cannot set revision ${wiki}:${revid} while stream is closed.` );
 		} else {
-			super.set( key, value );
+			this.insert( wiki, revid, value, Date.now() + this.maxAge );
 		}
 		return this;
 	}
 
 	/**
-	 * Starts listening for new revisions.
+	 * Get the cached added text of a revision. This does not count as a lookup.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @return The added text, or `undefined` if the revision or its added text is
+	 *   not in the store
 	 */
-	startStream() {
-		if ( !this.stream ) {
-			this.stream = new WikimediaStream( [
-				!this.privileged && 'mediawiki.revision-visibility-change',
-				'mediawiki.revision-tags-change'
-			].filter( v => !!v ) as WikimediaEventStream[], {
-				headers: {
-					'User-Agent': toolUserAgent
+	getAddedText( wiki: string, revid: number ): AddedText | undefined {
+		const key = RevisionStore.key( wiki, revid );
+		return this.peek( key ) !== undefined ? this.revisions.get( key ).addedText : undefined;
+	}
+
+	/**
+	 * Cache the added text of a revision. Does nothing if the revision is not in
+	 * the store.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @param addedText The added text
+	 */
+	setAddedText( wiki: string, revid: number, addedText: AddedText ) {
+		const key = RevisionStore.key( wiki, revid );
+		if ( this.peek( key ) !== undefined ) {
+			this.revisions.get( key ).addedText = addedText;
+		}
+	}
+
+	/**
+	 * Get the cached revert information of a revision. This does not count as a lookup.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @return The revert information, or `undefined` if the revision or its revert
+	 *   information is not in the store
+	 */
+	getRevertInformation( wiki: string, revid: number ): RevertInformation | undefined {
+		const key = RevisionStore.key( wiki, revid );
+		return this.peek( key ) !== undefined ?
+			this.revisions.get( key ).revertInformation : undefined;
+	}
+
+	/**
+	 * Cache the revert information of a revision. Does nothing if the revision is not
+	 * in the store.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @param revertInformation The revert information
+	 */
+	setRevertInformation( wiki: string, revid: number, revertInformation: RevertInformation ) {
+		const key = RevisionStore.key( wiki, revid );
+		if ( this.peek( key ) !== undefined ) {
+			this.revisions.get( key ).revertInformation = revertInformation;
+		}
+	}
+
+	/**
+	 * Remove a revision from the store.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @return `true` if the revision was in the store
+	 */
+	delete( wiki: string, revid: number ): boolean {
+		return this.revisions.delete( RevisionStore.key( wiki, revid ) );
+	}
+
+	/**
+	 * Remove all revisions from the store.
+	 */
+	clear() {
+		this.revisions.clear();
+	}
+
+	/**
+	 * Load the revisions saved by a persistence layer, then keep saving revisions to it
+	 * in the background. This must be called before the stream is started, so that the
+	 * stream can resume from the last event applied to the saved revisions. Saved
+	 * revisions are discarded if the stream cannot be resumed.
+	 *
+	 * @param persistence The persistence layer to use
+	 */
+	async persist( persistence: RevisionStorePersistence ): Promise<void> {
+		this.persistence = persistence;
+
+		const saved = await persistence.load( this.name );
+		if ( this.streamStarted ) {
+			Log.warn( `Not loading the "${ this.name }" revision store, as its stream ` +
+				'has already started.' );
+		} else if ( saved ) {
+			this.lastEventId = saved.lastEventId;
+			this.lastEventTime = saved.lastEventTime;
+			if ( this.canResume() ) {
+				const now = Date.now();
+				let loaded = 0;
+				for ( const { wiki, revid, revision, expireTime } of saved.revisions ) {
+					if ( expireTime > now ) {
+						this.insert( wiki, revid, revision, expireTime );
+						loaded++;
+					}
 				}
+				Log.info( `Loaded ${ loaded } revisions into the "${ this.name }" ` +
+					'revision store.' );
+			} else {
+				Log.info( `Discarded saved revisions of the "${ this.name }" revision ` +
+					'store, as its stream cannot be resumed.' );
+			}
+		}
+
+		if ( !this.saveInterval ) {
+			this.saveInterval = backgroundInterval(
+				() => this.save(),
+				RevisionStore.SAVE_INTERVAL,
+				`Failed to save the "${ this.name }" revision store.`
+			);
+		}
+	}
+
+	/**
+	 * Save all unexpired revisions to the persistence layer. Does nothing if the
+	 * store is not persisted.
+	 */
+	async save(): Promise<void> {
+		if ( !this.persistence ) {
+			return;
+		}
+		const now = Date.now();
+		const revisions = [];
+		for ( const { wiki, revid, revision, expireTime } of this.revisions.values() ) {
+			if ( expireTime > now ) {
+				revisions.push( { wiki, revid, revision, expireTime } );
+			}
+		}
+		await this.persistence.save( this.name, {
+			revisions,
+			lastEventId: this.lastEventId,
+			lastEventTime: this.lastEventTime
+		} );
+		Log.debug( `Saved ${ revisions.length } revisions from the "${ this.name }" ` +
+			'revision store.', this.stats );
+	}
+
+	/**
+	 * Check if the stream can pick up from the last received event.
+	 *
+	 * @return `true` if the last event is known and recent enough to resume from
+	 * @private
+	 */
+	private canResume(): boolean {
+		return this.lastEventId != null && this.lastEventTime != null &&
+			Date.now() - this.lastEventTime < RevisionStore.RESUME_WINDOW;
+	}
+
+	/**
+	 * Record the position of the stream.
+	 *
+	 * @param data The event data
+	 * @param data.meta The event metadata
+	 * @param data.meta.dt The time of the event, as an ISO 8601 timestamp
+	 * @param id The ID of the event
+	 * @private
+	 */
+	private recordEvent( data: { meta: { dt: string } }, id: string ) {
+		this.lastEventId = id;
+		this.lastEventTime = new Date( data.meta.dt ).getTime() || Date.now();
+	}
+
+	/**
+	 * Handle a reconnection of the stream. If the stream could not pick up from
+	 * where it left off, all revisions are dropped, as they may have missed changes
+	 * made while the stream was disconnected.
+	 *
+	 * @private
+	 */
+	private onReconnect() {
+		if ( this.canResume() ) {
+			Log.info( 'Resumed Wikimedia stream from the last event.', {
+				stream: this.storeId,
+				disconnectedAt: new Date( this.disconnectedAt ).toISOString()
+			} );
+		} else {
+			// Revisions can't be added while the stream is disconnected, so every
+			// revision in the store was cached before the gap.
+			Log.warn( 'Could not resume Wikimedia stream. Dropping all revisions.', {
+				stream: this.storeId,
+				count: this.revisions.size
 			} );
-			this.stream.on( 'open', () => {
+			this.clear();
+			this.invalidations++;
+		}
+		this.disconnectedAt = null;
+	}
+
+	/**
+	 * Get a revision without marking it as used or counting the lookup. Expired
+	 * revisions are dropped.
+	 *
+	 * @param key The key of the revision (see {@link RevisionStore.key})
+	 * @return The revision, or `undefined` if it is not in the store or has expired
+	 * @private
+	 */
+	private peek( key: string ): Revision | undefined {
+		const entry = this.revisions.get( key );
+		if ( !entry ) {
+			return undefined;
+		}
+		if ( entry.expireTime <= Date.now() ) {
+			this.revisions.delete( key );
+			this.expirations++;
+			return undefined;
+		}
+		return entry.revision;
+	}
+
+	/**
+	 * Get the keys of all stored revisions of a page.
+	 *
+	 * @param wiki The database name of the wiki of the page
+	 * @param pageId The page ID
+	 * @return The keys of the revisions
+	 * @private
+	 */
+	private getPageRevisionKeys( wiki: string, pageId: number ): string[] {
+		const keys = [];
+		for ( const [ key, entry ] of this.revisions ) {
+			if (
+				entry.wiki === wiki &&
+				isValidRevision( entry.revision ) &&
+				entry.revision.page?.pageid === pageId
+			) {
+				keys.push( key );
+			}
+		}
+		return keys;
+	}
+
+	/**
+	 * Remove all revisions of a page.
+	 *
+	 * @param wiki The database name of the wiki of the page
+	 * @param pageId The page ID
+	 * @private
+	 */
+	private deletePage( wiki: string, pageId: number ) {
+		for ( const key of this.getPageRevisionKeys( wiki, pageId ) ) {
+			this.revisions.delete( key );
+		}
+	}
+
+	/**
+	 * Add a revision to the store without checking the stream.
+	 *
+	 * @param wiki The database name of the wiki of the revision
+	 * @param revid The revision ID
+	 * @param revision The revision
+	 * @param expireTime The time (as a UNIX timestamp in milliseconds) when the
+	 *   revision expires
+	 * @private
+	 */
+	private insert( wiki: string, revid: number, revision: Revision, expireTime: number ) {
+		const key = RevisionStore.key( wiki, revid );
+		this.revisions.delete( key );
+		this.revisions.set( key, { wiki, revid, revision, expireTime } );
+		while ( this.revisions.size > this.maxSize ) {
+			// Maps iterate in insertion order, so the first key is the least recently used.
+			this.revisions.delete( this.revisions.keys().next().value );
+			this.evictions++;
+		}
+	}
+
+	/**
+	 * Starts listening for new revisions.
+	 */
+	startStream() {
+		if ( !this.streamStarted ) {
+			this.streamStarted = true;
+			this.source.on( 'open', () => {
 				Log.info( 'Wikimedia stream opened.', {
 					stream: this.storeId
 				} );
+				if ( this.disconnectedAt != null ) {
+					this.onReconnect();
+				}
 			} );
-			this.stream.on( 'close', () => {
+			this.source.on( 'close', () => {
 				Log.info( 'Wikimedia stream closed.', {
 					stream: this.storeId
 				} );
+				this.disconnectedAt = this.disconnectedAt ?? Date.now();
 			} );
-			this.stream.on( 'error', ( error ) => {
+			this.source.on( 'error', ( error ) => {
 				Log.info( 'Encountered error on Wikimedia stream', {
 					error,
 					stream: this.storeId
 				} );
+				if ( !this.source.open ) {
+					this.disconnectedAt = this.disconnectedAt ?? Date.now();
+				}
 			} );
-			if ( !this.privileged ) {
-				this.stream.on( 'mediawiki.revision-visibility-change', ( data ) => {
-					const oldRev = this.get( data.rev_id );
+			if ( this.privileged ) {
+				this.source.onEvent( 'mediawiki.revision-visibility-change', ( data, id ) => {
+					this.recordEvent( data, id );
+					// The stream doesn't say if the change was a suppression.
+					this.delete( data.database, data.rev_id );
+				} );
+			} else {
+				this.source.onEvent( 'mediawiki.revision-visibility-change', ( data, id ) => {
+					this.recordEvent( data, id );
+					const oldRev = this.peek( RevisionStore.key( data.database, data.rev_id ) );
 					if ( oldRev && isValidRevision( oldRev ) ) {
-						this.set( data.rev_id, Object.assign(
+						this.set( data.database, data.rev_id, Object.assign(
 							{},
 							oldRev,
 							{
@@ -91,26 +604,71 @@ export default class RevisionStore extends Map<number, Revision> {
 					}
 				} );
 			}
-			this.stream.on( 'mediawiki.revision-tags-change', ( data ) => {
-				const revision = this.get( data.rev_id );
+			this.source.onEvent( 'mediawiki.revision-tags-change', ( data, id ) => {
+				this.recordEvent( data, id );
+				const key = RevisionStore.key( data.database, data.rev_id );
+				const revision = this.peek( key );
 				if ( revision && isValidRevision( revision ) ) {
-					revision.tags = data.tags;
+					if (
+						data.tags.includes( 'mw-reverted' ) &&
+						!revision.tags?.includes( 'mw-reverted' )
+					) {
+						// The revision was reverted. It is fetched again to find out by
+						// which revision.
+						this.delete( data.database, data.rev_id );
+					} else {
+						revision.tags = data.tags;
+						// Revert tags are used to detect reverts.
+						this.revisions.get( key ).revertInformation = undefined;
+					}
+				}
+			} );
+			// Revisions of deleted pages can't be seen without looking at the archive,
+			// even by privileged requesters, so they are dropped from both stores.
+			// Suppressed page deletions are also sent as page deletions.
+			this.source.onEvent( 'mediawiki.page-delete', ( data, id ) => {
+				this.recordEvent( data, id );
+				this.deletePage( data.database, data.page_id );
+			} );
+			this.source.onEvent( 'mediawiki.page-undelete', ( data, id ) => {
+				this.recordEvent( data, id );
+				// Restored revisions may be merged into an existing page, which changes
+				// the parent revisions (and diff sizes) of that page's revisions.
+				this.deletePage( data.database, data.page_id );
+				if ( data.prior_state?.page_id != null ) {
+					this.deletePage( data.database, data.prior_state.page_id );
+				}
+				// Restored revisions may have been stored as missing. Which revisions
+				// were restored is not known, so all missing revisions of the wiki
+				// are dropped.
+				for ( const [ key, { wiki, revision } ] of this.revisions ) {
+					if ( wiki === data.database && !isValidRevision( revision ) ) {
+						this.revisions.delete( key );
+					}
+				}
+			} );
+			this.source.onEvent( 'mediawiki.page-move', ( data, id ) => {
+				this.recordEvent( data, id );
+				const title = data.page_title.replace( /_/g, ' ' );
+				for ( const key of this.getPageRevisionKeys( data.database, data.page_id ) ) {
+					const revision = this.peek( key );
+					if ( revision && isValidRevision( revision ) ) {
+						revision.page = Object.assign( {}, revision.page, {
+							title,
+							ns: data.page_namespace
+						} );
+					}
 				}
 			} );
 		}
-		if (
-			this.stream.status !== EventSourceState.Open &&
-			this.stream.status !== EventSourceState.Connecting
-		) {
-			this.stream.open();
-		}
+		this.source.start( this.canResume() ? this.lastEventId : undefined );
 	}
 
 	/**
 	 * Stops listening for new revisions.
 	 */
 	stopStream() {
-		this.stream.close();
+		this.source.stop();
 	}
 
 }
@@ -0,0 +1,66 @@
+import { Revision } from '../models/Revision';
+
+/**
+ * A revision kept by a {@link RevisionStore}, as saved by a persistence layer.
+ */
+export interface PersistedRevision {
+	/**
+	 * The database name of the wiki of the revision.
+	 */
+	wiki: string;
+	revid: number;
+	revision: Revision;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) when this revision expires.
+	 */
+	expireTime: number;
+}
+
+/**
+ * The saved contents of a {@link RevisionStore}.
+ */
+export interface PersistedRevisionStore {
+	revisions: PersistedRevision[];
+	/**
+	 * The ID of the last stream event that was applied to the revisions, used to
+	 * resume the stream from where it left off.
+	 */
+	lastEventId?: string;
+	/**
+	 * The time (as a UNIX timestamp in milliseconds) of the last stream event that
+	 * was applied to the revisions.
+	 */
+	lastEventTime?: number;
+}
+
+/**
+ * Saves the contents of revision stores outside of the process, so that they
+ * can be rehydrated after a restart.
+ */
+export default abstract class RevisionStorePersistence {
+
+	/**
+	 * Prepare the persistence layer for use. Called once, before anything is
+	 * loaded or saved.
+	 */
+	async init(): Promise<void> {
+		/* ignored */
+	}
+
+	/**
+	 * Load the saved contents of a store.
+	 *
+	 * @param store The name of the revision store
+	 * @return The saved contents, or `null` if nothing was saved.
+	 */
+	abstract load( store: string ): Promise<PersistedRevisionStore | null>;
+
+	/**
+	 * Save the contents of a store. Replaces everything saved for that store.
+	 *
+	 * @param store The name of the revision store
+	 * @param contents The contents to save
+	 */
+	abstract save( store: string, contents: PersistedRevisionStore ): Promise<void>;
+
+}
@@ -79,4 +79,21 @@ export default class TitleFactory {
 
 		return title;
 	}
+
+	/**
+	 * Normalizes a username (e.g. `User:foo` and `foo` both become `Foo` on
+	 * wikis with first-letter case sensitivity).
+	 *
+	 * @param site
+	 * @param user The username to normalize, with or without the `User:` prefix
+	 * @return The normalized username, or `null` if the username is invalid.
+	 */
+	static async normalizeUsername( site: SiteMatrixSite, user: string ): Promise<string | null> {
+		const Title = await TitleFactory.get( site );
+		const title = Title.newFromText( user, Title.nameIdMap.user );
+		if ( !title || title.getNamespaceId() !== Title.nameIdMap.user ) {
+			return null;
+		}
+		return title.getMainText();
+	}
 }
@@ -0,0 +1,116 @@
+import { Knex } from 'knex';
+import RevisionStorePersistence, { PersistedRevisionStore } from './RevisionStorePersistence';
+import ToolsDBConnection from '../database/ToolsDBConnection';
+import Log from './Log';
+
+/**
+ * Saves revision stores in the tool's ToolsDB (MariaDB) database.
+ */
+export default class ToolsDBRevisionStorePersistence extends RevisionStorePersistence {
+
+	static readonly TABLE = 'dispatch_revision';
+	/**
+	 * Holds the stream position of each store.
+	 */
+	static readonly STORE_TABLE = 'dispatch_revision_store';
+	/**
+	 * The number of revisions to insert per query.
+	 */
+	static readonly INSERT_BATCH_SIZE = 500;
+
+	/**
+	 * @return The ToolsDB connection
+	 * @private
+	 */
+	private get conn(): Promise<Knex> {
+		return ToolsDBConnection.connect();
+	}
+
+	/**
+	 * Creates the revision tables, if they don't exist yet.
+	 */
+	async init(): Promise<void> {
+		const conn = await this.conn;
+		if ( !( await conn.schema.hasTable( ToolsDBRevisionStorePersistence.TABLE ) ) ) {
+			Log.info( `Creating ToolsDB table "${ToolsDBRevisionStorePersistence.TABLE}"...` );
+			await conn.schema.createTable( ToolsDBRevisionStorePersistence.TABLE, ( table ) => {
+				table.string( 'store', 32 ).notNullable();
+				table.string( 'wiki', 64 ).notNullable();
+				table.bigInteger( 'revid' ).notNullable();
+				table.text( 'revision' ).notNullable();
+				table.bigInteger( 'expiry' ).notNullable();
+				table.primary( [ 'store', 'wiki', 'revid' ] );
+			} );
+		}
+		if ( !( await conn.schema.hasTable( ToolsDBRevisionStorePersistence.STORE_TABLE ) ) ) {
+			Log.info(
+				`Creating ToolsDB table "${ToolsDBRevisionStorePersistence.STORE_TABLE}"...`
+			);
+			await conn.schema.createTable(
+				ToolsDBRevisionStorePersistence.STORE_TABLE,
+				( table ) => {
+					table.string( 'store', 32 ).primary();
+					table.text( 'eventid' ).nullable();
+					table.bigInteger( 'eventtime' ).nullable();
+				}
+			);
+		}
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async load( store: string ): Promise<PersistedRevisionStore | null> {
+		const conn = await this.conn;
+		const storeRow = await conn( ToolsDBRevisionStorePersistence.STORE_TABLE )
+			.where( { store } )
+			.first();
+		if ( !storeRow ) {
+			return null;
+		}
+		const rows = await conn( ToolsDBRevisionStorePersistence.TABLE )
+			.where( { store } )
+			.andWhere( 'expiry', '>', Date.now() );
+		return {
+			revisions: rows.map( ( row ) => ( {
+				wiki: row.wiki,
+				revid: +row.revid,
+				revision: JSON.parse( row.revision ),
+				expireTime: +row.expiry
+			} ) ),
+			lastEventId: storeRow.eventid ?? undefined,
+			lastEventTime: storeRow.eventtime != null ? +storeRow.eventtime : undefined
+		};
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async save( store: string, contents: PersistedRevisionStore ): Promise<void> {
+		await ( await this.conn ).transaction( async ( trx ) => {
+			await trx( ToolsDBRevisionStorePersistence.TABLE )
+				.where( { store } )
+				.delete();
+			await trx.batchInsert(
+				ToolsDBRevisionStorePersistence.TABLE,
+				contents.revisions.map( ( r ) => ( {
+					store,
+					wiki: r.wiki,
+					revid: r.revid,
+					revision: JSON.stringify( r.revision ),
+					expiry: r.expireTime
+				} ) ),
+				ToolsDBRevisionStorePersistence.INSERT_BATCH_SIZE
+			);
+			await trx( ToolsDBRevisionStorePersistence.STORE_TABLE )
+				.insert( {
+					store,
+					eventid: contents.lastEventId ?? null,
+					eventtime: contents.lastEventTime ?? null
+				} )
+				.onConflict( 'store' )
+				.merge();
+		} );
+	}
+
+}
@@ -0,0 +1,62 @@
+import WikimediaStream, { EventSourceState } from 'wikimedia-streams';
+import RevisionEventSource, { RevisionEvents } from './RevisionEventSource';
+import toolUserAgent from './func/toolUserAgent';
+
+/**
+ * Receives revision events from Wikimedia EventStreams.
+ */
+export default class WikimediaRevisionEventSource extends RevisionEventSource {
+
+	stream: WikimediaStream;
+
+	/**
+	 * @inheritDoc
+	 */
+	get open(): boolean {
+		return this.stream?.status === EventSourceState.Open;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	start( lastEventId?: string ) {
+		if ( !this.stream ) {
+			this.stream = new WikimediaStream(
+				[ ...RevisionEventSource.STREAMS ],
+				{
+					headers: {
+						'User-Agent': toolUserAgent,
+						// Only used for the first connection. Afterwards, the stream sends
+						// the ID of the last received event by itself.
+						...( lastEventId != null ? { 'Last-Event-ID': lastEventId } : {} )
+					}
+				}
+			);
+			this.stream.on( 'open', () => this.emit( 'open' ) );
+			this.stream.on( 'close', () => this.emit( 'close' ) );
+			this.stream.on( 'error', ( error ) => this.emit( 'error', error ) );
+			for ( const stream of RevisionEventSource.STREAMS ) {
+				this.stream.on(
+					stream,
+					( data: RevisionEvents[typeof stream], event: MessageEvent ) => {
+						this.emitEvent( stream, data, event.lastEventId );
+					}
+				);
+			}
+		}
+		if (
+			this.stream.status !== EventSourceState.Open &&
+			this.stream.status !== EventSourceState.Connecting
+		) {
+			this.stream.open();
+		}
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	stop() {
+		this.stream?.close();
+	}
+
+}
@@ -0,0 +1,25 @@
+import Log from '../Log';
+
+/**
+ * Repeatedly run an asynchronous job in the background. Failures of the job are
+ * logged as warnings. The interval does not keep the process alive.
+ *
+ * @param job The job to run
+ * @param interval How often (in milliseconds) to run the job
+ * @param failure The message to log if the job fails
+ * @return The interval, to be stopped with `clearInterval`
+ */
+export default function backgroundInterval(
+	job: () => Promise<unknown>,
+	interval: number,
+	failure: string
+): NodeJS.Timeout {
+	const timer = setInterval( () => {
+		job().catch( ( e ) => {
+			Log.warn( failure, { error: e } );
+		} );
+	}, interval );
+	// Don't keep the process alive just for background jobs.
+	timer.unref();
+	return timer;
+}
@@ -0,0 +1,19 @@
+import express from 'express';
+import { TOOLFORGE } from '../../DispatchConstants';
+
+/**
+ * Get an identifier for the client which made a request. On Toolforge, all requests
+ * come through the front proxy, so the client address is taken from the last entry
+ * of the `X-Forwarded-For` header (the one added by the proxy itself).
+ *
+ * @param req The request to identify
+ * @return The client's IP address
+ */
+export default function clientIdentifier( req: express.Request ): string {
+	const forwardedFor = req.header( 'X-Forwarded-For' );
+	if ( TOOLFORGE && forwardedFor ) {
+		const addresses = forwardedFor.split( ',' );
+		return addresses[ addresses.length - 1 ].trim();
+	}
+	return req.ip;
+}
@@ -0,0 +1,67 @@
+import longestCommonSubsequence from './longestCommonSubsequence';
+
+/**
+ * Get the words of a paragraph which were added when it replaced another paragraph.
+ * Consecutive added words are kept together, and separate runs of added words are
+ * put on separate lines.
+ *
+ * @param oldParagraph The replaced paragraph
+ * @param newParagraph The new paragraph
+ * @return The added words
+ */
+function diffAddedWords( oldParagraph: string, newParagraph: string ): string {
+	const oldWords = oldParagraph.split( /\s+/ );
+	const newWords = newParagraph.split( /\s+/ );
+	const matched = new Set(
+		longestCommonSubsequence( oldWords, newWords ).map( ( [ , j ] ) => j )
+	);
+
+	const runs: string[] = [];
+	let run: string[] = [];
+	for ( const [ j, word ] of newWords.entries() ) {
+		if ( !matched.has( j ) ) {
+			run.push( word );
+		} else if ( run.length > 0 ) {
+			runs.push( run.join( ' ' ) );
+			run = [];
+		}
+	}
+	if ( run.length > 0 ) {
+		runs.push( run.join( ' ' ) );
+	}
+	return runs.join( '\n' );
+}
+
+/**
+ * Get the text added between two versions of a text (usually wikitext). Both versions
+ * are split into paragraphs (separated by blank lines), which are matched with each
+ * other. Paragraphs which are new are added whole. For paragraphs which replaced
+ * another paragraph, only the added words are included.
+ *
+ * @param oldText The previous version of the text
+ * @param newText The current version of the text
+ * @return The added text, with paragraphs separated by blank lines
+ */
+export default function diffAddedText( oldText: string, newText: string ): string {
+	const oldParagraphs = oldText.split( /\n\s*\n/ ).map( ( p ) => p.trim() );
+	const newParagraphs = newText.split( /\n\s*\n/ ).map( ( p ) => p.trim() );
+	const matches = longestCommonSubsequence( oldParagraphs, newParagraphs );
+
+	const added: string[] = [];
+	let oldIndex = 0;
+	let newIndex = 0;
+	for ( const [ i, j ] of [ ...matches, [ oldParagraphs.length, newParagraphs.length ] ] ) {
+		// Unmatched paragraphs between two matches were removed or added. Added
+		// paragraphs are paired with removed ones in order, as edits usually change
+		// paragraphs in place.
+		const removed = oldParagraphs.slice( oldIndex, i );
+		for ( const [ k, paragraph ] of newParagraphs.slice( newIndex, j ).entries() ) {
+			added.push(
+				removed[ k ] != null ? diffAddedWords( removed[ k ], paragraph ) : paragraph
+			);
+		}
+		oldIndex = i + 1;
+		newIndex = j + 1;
+	}
+	return added.filter( ( paragraph ) => paragraph.length > 0 ).join( '\n\n' );
+}
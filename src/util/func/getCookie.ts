@@ -0,0 +1,22 @@
+import express from 'express';
+
+/**
+ * Get the value of a cookie sent with a request.
+ *
+ * @param req The request to get the cookie from
+ * @param name The name of the cookie
+ * @return The decoded value of the cookie, or `null` if it was not sent.
+ */
+export default function getCookie( req: express.Request, name: string ): string | null {
+	for ( const pair of ( req.header( 'Cookie' ) ?? '' ).split( ';' ) ) {
+		const separator = pair.indexOf( '=' );
+		if ( separator !== -1 && pair.slice( 0, separator ).trim() === name ) {
+			try {
+				return decodeURIComponent( pair.slice( separator + 1 ).trim() );
+			} catch ( e ) {
+				return null;
+			}
+		}
+	}
+	return null;
+}
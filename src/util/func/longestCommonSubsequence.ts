@@ -0,0 +1,70 @@
+/**
+ * Find the longest common subsequence of two arrays. Common prefixes and suffixes are
+ * matched directly, so that only the differing middle parts need to be compared.
+ *
+ * @param a The first array
+ * @param b The second array
+ * @param maxCells The largest comparison table to build. If the differing parts are
+ *   larger than this, they are left unmatched.
+ * @return Pairs of matching indices in `a` and `b`, in order.
+ */
+export default function longestCommonSubsequence<T>(
+	a: T[],
+	b: T[],
+	maxCells: number = 4e6
+): [ number, number ][] {
+	let start = 0;
+	while ( start < a.length && start < b.length && a[ start ] === b[ start ] ) {
+		start++;
+	}
+	let aEnd = a.length;
+	let bEnd = b.length;
+	while ( aEnd > start && bEnd > start && a[ aEnd - 1 ] === b[ bEnd - 1 ] ) {
+		aEnd--;
+		bEnd--;
+	}
+
+	const matches: [ number, number ][] = [];
+	for ( let i = 0; i < start; i++ ) {
+		matches.push( [ i, i ] );
+	}
+
+	const rows = aEnd - start;
+	const columns = bEnd - start;
+	if ( rows > 0 && columns > 0 && rows * columns <= maxCells ) {
+		// lengths[ i * ( columns + 1 ) + j ] is the length of the longest common
+		// subsequence of the middle parts of `a` from `i` and `b` from `j`.
+		const lengths = new Uint32Array( ( rows + 1 ) * ( columns + 1 ) );
+		for ( let i = rows - 1; i >= 0; i-- ) {
+			for ( let j = columns - 1; j >= 0; j-- ) {
+				lengths[ i * ( columns + 1 ) + j ] = a[ start + i ] === b[ start + j ] ?
+					lengths[ ( i + 1 ) * ( columns + 1 ) + j + 1 ] + 1 :
+					Math.max(
+						lengths[ ( i + 1 ) * ( columns + 1 ) + j ],
+						lengths[ i * ( columns + 1 ) + j + 1 ]
+					);
+			}
+		}
+		let i = 0;
+		let j = 0;
+		while ( i < rows && j < columns ) {
+			if ( a[ start + i ] === b[ start + j ] ) {
+				matches.push( [ start + i, start + j ] );
+				i++;
+				j++;
+			} else if (
+				lengths[ ( i + 1 ) * ( columns + 1 ) + j ] >=
+				lengths[ i * ( columns + 1 ) + j + 1 ]
+			) {
+				i++;
+			} else {
+				j++;
+			}
+		}
+	}
+
+	for ( let i = 0; i < a.length - aEnd; i++ ) {
+		matches.push( [ aEnd + i, bEnd + i ] );
+	}
+	return matches;
+}
@@ -0,0 +1,28 @@
+/**
+ * Wait for a promise to settle, but only until a deadline passes. The promise is
+ * not cancelled once the deadline passes, and may still settle later.
+ *
+ * @param promise The promise to wait for
+ * @param deadline The time (as a UNIX timestamp in milliseconds) to stop waiting at,
+ *   or `null` to wait for as long as it takes
+ * @return `true` if the promise settled before the deadline, `false` otherwise
+ */
+export default async function settlesBefore(
+	promise: Promise<unknown>,
+	deadline: number | null
+): Promise<boolean> {
+	const settled = promise.then( () => true, () => true );
+	if ( deadline == null ) {
+		return settled;
+	}
+
+	let timer: ReturnType<typeof setTimeout>;
+	const expired = new Promise<boolean>( ( resolve ) => {
+		timer = setTimeout( () => resolve( false ), Math.max( 0, deadline - Date.now() ) );
+	} );
+	try {
+		return await Promise.race( [ settled, expired ] );
+	} finally {
+		clearTimeout( timer );
+	}
+}
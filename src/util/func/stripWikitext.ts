@@ -0,0 +1,73 @@
+/**
+ * Remove nested blocks (such as templates) from text.
+ *
+ * @param text The text
+ * @param open The string which opens a block
+ * @param close The string which closes a block
+ * @return The text without the blocks. Unclosed blocks are removed until the end.
+ */
+function removeBlocks( text: string, open: string, close: string ): string {
+	let result = '';
+	let depth = 0;
+	let i = 0;
+	while ( i < text.length ) {
+		if ( text.startsWith( open, i ) ) {
+			depth++;
+			i += open.length;
+		} else if ( depth > 0 && text.startsWith( close, i ) ) {
+			depth--;
+			i += close.length;
+		} else {
+			if ( depth === 0 ) {
+				result += text[ i ];
+			}
+			i++;
+		}
+	}
+	return result;
+}
+
+/**
+ * Get the plain text of wikitext, roughly as it would be read on the page. Templates,
+ * tables, references, files, categories, comments, and HTML tags are removed, and
+ * links are replaced with their labels. This is meant for comparing text with other
+ * sources (such as when checking for copyright violations), not for display.
+ *
+ * @param wikitext The wikitext
+ * @return The plain text
+ */
+export default function stripWikitext( wikitext: string ): string {
+	let text = wikitext
+		.replace( /<!--[\s\S]*?(?:-->|$)/g, '' )
+		.replace( /<ref[^>/]*\/>/gi, '' )
+		.replace( /<ref[^>]*>[\s\S]*?<\/ref>/gi, '' );
+	text = removeBlocks( text, '{{', '}}' );
+	text = removeBlocks( text, '{|', '|}' );
+
+	// Links are replaced from the innermost out, so that links in file captions
+	// are handled before the file itself.
+	let previous: string;
+	do {
+		previous = text;
+		text = text.replace( /\[\[([^[\]]*)\]\]/g, ( _, link: string ) => {
+			const [ target, ...label ] = link.split( '|' );
+			if ( /^\s*:?\s*(?:file|image|category)\s*:/i.test( target ) ) {
+				return '';
+			}
+			return label.length > 0 ? label.join( '|' ) : target;
+		} );
+	} while ( text !== previous );
+
+	return text
+		// External links are replaced with their labels, if any.
+		.replace( /\[(\/\/[^\]]*|https?:\/\/[^\]]*)\]/g, ( _, link: string ) => link.replace( /^\S+\s*/, '' ) )
+		.replace( /'{2,}/g, '' )
+		.replace( /^=+([^=\n]*)=+[ \t]*$/gm, ( _, heading: string ) => heading.trim() )
+		.replace( /<[^>]+>/g, '' )
+		.replace( /__[A-Z]+__/g, '' )
+		.replace( /^[*#:;]+\s*/gm, '' )
+		.replace( /&nbsp;/g, ' ' )
+		.replace( /[ \t]+/g, ' ' )
+		.replace( /\n\s*\n\s*/g, '\n\n' )
+		.trim();
+}
@@ -0,0 +1,16 @@
+/**
+ * Throws an `AbortError` if the given signal has already been aborted. Used
+ * at checkpoints of long-running operations to stop work as soon as possible.
+ *
+ * `AbortSignal#throwIfAborted` is not available on all supported Node.js
+ * versions, hence this function.
+ *
+ * @param signal The signal to check. Does nothing if not provided.
+ */
+export default function throwIfAborted( signal?: AbortSignal ): void {
+	if ( signal?.aborted ) {
+		const error = new Error( 'The operation was aborted' );
+		error.name = 'AbortError';
+		throw error;
+	}
+}
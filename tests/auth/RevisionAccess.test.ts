@@ -0,0 +1,161 @@
+import { describe, expect, it } from '@jest/globals';
+import { ExpandedRevision } from '../../src/models/Revision';
+import RevisionAccess, { RevisionAccessRights } from '../../src/auth/RevisionAccess';
+
+const HISTORY: RevisionAccessRights = {
+	deletedHistory: true,
+	deletedText: false,
+	suppressed: false
+};
+const OVERSIGHT: RevisionAccessRights = {
+	deletedHistory: true,
+	deletedText: true,
+	suppressed: true
+};
+
+/**
+ * Make a revision for testing.
+ *
+ * @param hidden Fields and flags to set on the revision
+ * @return The revision
+ */
+function revision( hidden: Partial<ExpandedRevision> = {} ): ExpandedRevision {
+	return {
+		revid: 100,
+		parentid: 99,
+		minor: false,
+		user: 'Example',
+		userid: 1,
+		timestamp: '2023-01-01T00:00:00.000Z',
+		size: 100,
+		comment: 'Summary',
+		parsedcomment: 'Summary',
+		tags: [],
+		page: { pageid: 1, title: 'Example', ns: 0 },
+		diffsize: 10,
+		...hidden
+	} as ExpandedRevision;
+}
+
+describe( 'RevisionAccess', () => {
+
+	describe( 'fromRights', () => {
+
+		it( 'maps user rights to access rights', () => {
+			expect( RevisionAccess.fromRights( [ 'read', 'edit' ] ) )
+				.toEqual( RevisionAccess.PUBLIC );
+			expect( RevisionAccess.fromRights( [ 'deletedhistory' ] ) ).toEqual( HISTORY );
+			expect( RevisionAccess.fromRights(
+				[ 'deletedhistory', 'deletedtext', 'viewsuppressed' ]
+			) ).toEqual( OVERSIGHT );
+			expect( RevisionAccess.fromRights( [ 'suppressrevision' ] ).suppressed ).toBe( true );
+		} );
+
+		it( 'marks requesters who can see deleted data as privileged', () => {
+			expect( RevisionAccess.isPrivileged( RevisionAccess.PUBLIC ) ).toBe( false );
+			expect( RevisionAccess.isPrivileged( HISTORY ) ).toBe( true );
+		} );
+
+	} );
+
+	describe( 'canView', () => {
+
+		it( 'allows everyone to view data which is not hidden', () => {
+			expect( RevisionAccess.canView( revision(), 'commenthidden', RevisionAccess.PUBLIC ) )
+				.toBe( true );
+		} );
+
+		it( 'requires the matching right for deleted data', () => {
+			const deleted = revision( { commenthidden: true, texthidden: true } );
+
+			expect( RevisionAccess.canView( deleted, 'commenthidden', RevisionAccess.PUBLIC ) )
+				.toBe( false );
+			expect( RevisionAccess.canView( deleted, 'commenthidden', HISTORY ) ).toBe( true );
+			expect( RevisionAccess.canView( deleted, 'texthidden', HISTORY ) ).toBe( false );
+		} );
+
+		it( 'requires the suppression right for suppressed data', () => {
+			const suppressed = revision( { userhidden: true, suppressed: true } );
+
+			expect( RevisionAccess.canView( suppressed, 'userhidden', HISTORY ) ).toBe( false );
+			expect( RevisionAccess.canView( suppressed, 'userhidden', OVERSIGHT ) ).toBe( true );
+		} );
+
+	} );
+
+	describe( 'strip', () => {
+
+		it( 'removes hidden fields the requester cannot see', () => {
+			const deleted = revision( { commenthidden: true, userhidden: true } );
+			const stripped = RevisionAccess.strip( deleted, RevisionAccess.PUBLIC );
+
+			expect( stripped ).not.toHaveProperty( 'comment' );
+			expect( stripped ).not.toHaveProperty( 'parsedcomment' );
+			expect( stripped ).not.toHaveProperty( 'user' );
+			expect( stripped ).not.toHaveProperty( 'userid' );
+			expect( stripped ).toMatchObject( {
+				revid: 100,
+				commenthidden: true,
+				userhidden: true
+			} );
+		} );
+
+		it( 'keeps hidden fields the requester can see', () => {
+			const deleted = revision( { commenthidden: true } );
+
+			expect( RevisionAccess.strip( deleted, HISTORY ) ).toEqual( deleted );
+		} );
+
+		it( 'keeps suppressed fields from requesters without the suppression right', () => {
+			const suppressed = revision( { commenthidden: true, suppressed: true } );
+
+			expect( RevisionAccess.strip( suppressed, HISTORY ) ).not.toHaveProperty( 'comment' );
+			expect( RevisionAccess.strip( suppressed, OVERSIGHT ) ).toHaveProperty( 'comment' );
+		} );
+
+		it( 'does not change the original revision', () => {
+			const deleted = revision( { commenthidden: true } );
+			RevisionAccess.strip( deleted, RevisionAccess.PUBLIC );
+
+			expect( deleted.comment ).toBe( 'Summary' );
+		} );
+
+		it( 'leaves missing revisions alone', () => {
+			const missing = { revid: 100, missing: true as const };
+
+			expect( RevisionAccess.strip( missing, RevisionAccess.PUBLIC ) ).toBe( missing );
+		} );
+
+	} );
+
+	describe( 'isComplete', () => {
+
+		it( 'accepts revisions with nothing hidden', () => {
+			expect( RevisionAccess.isComplete( revision(), OVERSIGHT ) ).toBe( true );
+		} );
+
+		it( 'accepts stripped revisions for requesters who cannot see more', () => {
+			const stripped = RevisionAccess.strip(
+				revision( { commenthidden: true } ), RevisionAccess.PUBLIC
+			);
+
+			expect( RevisionAccess.isComplete( stripped, RevisionAccess.PUBLIC ) ).toBe( true );
+		} );
+
+		it( 'rejects stripped revisions for requesters who can see more', () => {
+			const stripped = RevisionAccess.strip(
+				revision( { commenthidden: true } ), RevisionAccess.PUBLIC
+			);
+
+			expect( RevisionAccess.isComplete( stripped, HISTORY ) ).toBe( false );
+		} );
+
+		it( 'accepts revisions fetched with the requester\'s rights', () => {
+			const deleted = revision( { userhidden: true } );
+
+			expect( RevisionAccess.isComplete( deleted, HISTORY ) ).toBe( true );
+		} );
+
+	} );
+
+} );
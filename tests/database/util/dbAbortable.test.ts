@@ -0,0 +1,83 @@
+import type { Knex } from 'knex';
+import { describe, expect, it, jest } from '@jest/globals';
+import dbAbortable from '../../../src/database/util/dbAbortable';
+
+/**
+ * A query which runs until it is cancelled or told to finish.
+ */
+class FakeQuery {
+
+	readonly connectionObject = { id: 1 };
+	readonly client = {
+		acquireConnection: jest.fn( async () => this.connectionObject ),
+		releaseConnection: jest.fn( async () => { /* ignored */ } ),
+		cancelQuery: jest.fn( async () => {
+			this.reject( new Error( 'Query was interrupted' ) );
+		} )
+	};
+
+	resolve: ( rows: unknown[] ) => void;
+	reject: ( error: Error ) => void;
+	readonly result = new Promise<unknown[]>( ( res, rej ) => {
+		this.resolve = res;
+		this.reject = rej;
+	} );
+
+	connection = jest.fn( () => this.result );
+
+	/**
+	 * @return This query, as a query builder
+	 */
+	get builder(): Knex.QueryBuilder {
+		return this as unknown as Knex.QueryBuilder;
+	}
+
+}
+
+describe( 'dbAbortable', () => {
+
+	it( 'runs the query on a pinned connection', async () => {
+		const query = new FakeQuery();
+		const result = dbAbortable( query.builder, new AbortController().signal );
+		await new Promise( ( res ) => setImmediate( res ) );
+		query.resolve( [ { id: 1 } ] );
+
+		await expect( result ).resolves.toEqual( [ { id: 1 } ] );
+		expect( query.connection ).toHaveBeenCalledWith( query.connectionObject );
+		expect( query.client.releaseConnection ).toHaveBeenCalledWith( query.connectionObject );
+		expect( query.client.cancelQuery ).not.toHaveBeenCalled();
+	} );
+
+	it( 'kills the query once the signal aborts', async () => {
+		const query = new FakeQuery();
+		const controller = new AbortController();
+		const result = dbAbortable( query.builder, controller.signal );
+		await new Promise( ( res ) => setImmediate( res ) );
+		controller.abort();
+
+		await expect( result ).rejects.toMatchObject( { name: 'AbortError' } );
+		expect( query.client.cancelQuery ).toHaveBeenCalledWith( query.connectionObject );
+		expect( query.client.releaseConnection ).toHaveBeenCalledWith( query.connectionObject );
+	} );
+
+	it( 'does not start the query if the signal already aborted', async () => {
+		const query = new FakeQuery();
+		const controller = new AbortController();
+		controller.abort();
+
+		await expect( dbAbortable( query.builder, controller.signal ) )
+			.rejects.toMatchObject( { name: 'AbortError' } );
+		expect( query.client.acquireConnection ).not.toHaveBeenCalled();
+	} );
+
+	it( 'passes on errors of queries which were not aborted', async () => {
+		const query = new FakeQuery();
+		const result = dbAbortable( query.builder, new AbortController().signal );
+		await new Promise( ( res ) => setImmediate( res ) );
+		query.reject( new Error( 'Table does not exist' ) );
+
+		await expect( result ).rejects.toThrow( 'Table does not exist' );
+		expect( query.client.releaseConnection ).toHaveBeenCalled();
+	} );
+
+} );
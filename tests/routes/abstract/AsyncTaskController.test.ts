@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AsyncTask } from '../../../src/routes/abstract/AsyncTask';
+import AsyncTaskController from '../../../src/routes/abstract/AsyncTaskController';
+import AsyncTaskStore, { AsyncTaskRecord } from '../../../src/routes/abstract/AsyncTaskStore';
+import MemoryAsyncTaskStore from '../../../src/routes/abstract/MemoryAsyncTaskStore';
+
+/**
+ * A memory task store whose first saves are slower than later ones.
+ */
+class SlowAsyncTaskStore extends MemoryAsyncTaskStore {
+
+	/**
+	 * The states of saved records, in the order that the saves completed.
+	 */
+	readonly saved: string[] = [];
+	private saves = 0;
+
+	/**
+	 * @inheritDoc
+	 */
+	async save( record: AsyncTaskRecord ): Promise<void> {
+		const delay = Math.max( 0, 30 - 10 * this.saves++ );
+		await new Promise( ( res ) => setTimeout( res, delay ) );
+		this.saved.push( record.state );
+		return super.save( record );
+	}
+
+}
+
+/**
+ * Runs tasks which finish once told to.
+ */
+class TestTaskController extends AsyncTaskController<{ value: string }, string> {
+
+	readonly finishers: Map<string, () => void> = new Map();
+
+	/**
+	 * @inheritDoc
+	 */
+	protected getTaskListId(): string {
+		return 'test';
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	protected async process( options: { value: string }, task: AsyncTask<string> ): Promise<void> {
+		await new Promise<void>( ( res ) => this.finishers.set( task.id, res ) );
+		task.finish( options.value );
+	}
+
+}
+
+/**
+ * Wait for all saves started so far to complete.
+ *
+ * @return A promise resolved after the slowest save
+ */
+function waitForSaves(): Promise<void> {
+	return new Promise( ( res ) => setTimeout( res, 100 ) );
+}
+
+describe( 'AsyncTaskController', () => {
+
+	let originalStore: AsyncTaskStore;
+	let store: SlowAsyncTaskStore;
+	let controller: TestTaskController;
+
+	beforeEach( () => {
+		originalStore = AsyncTaskController.store;
+		store = new SlowAsyncTaskStore();
+		AsyncTaskController.store = store;
+		controller = new TestTaskController();
+	} );
+
+	afterEach( () => {
+		AsyncTaskController.store = originalStore;
+	} );
+
+	it( 'saves task snapshots in order', async () => {
+		const task = controller.runTask( { value: 'result' } );
+		await new Promise( ( res ) => setImmediate( res ) );
+		controller.finishers.get( task.id )();
+		await waitForSaves();
+
+		expect( store.saved[ store.saved.length - 1 ] ).toBe( 'finished' );
+		expect( store.saved.indexOf( 'finished' ) ).toBe( store.saved.length - 1 );
+		await expect( store.get( 'test', task.id ) )
+			.resolves.toMatchObject( { state: 'finished', result: 'result' } );
+	} );
+
+	it( 'does not save tasks which have an owner', async () => {
+		const task = controller.runTask( { value: 'result' }, {}, { owner: 'Example' } );
+		await new Promise( ( res ) => setImmediate( res ) );
+		controller.finishers.get( task.id )();
+		await waitForSaves();
+
+		expect( store.saved ).toEqual( [] );
+		await expect( controller.getTaskRecord( task.id ) )
+			.resolves.toMatchObject( { state: 'finished', owner: 'Example' } );
+	} );
+
+	it( 'only refreshes finished tasks started with the same options', async () => {
+		const task = controller.runTask( { value: 'result' }, {}, { key: { user: 'A', n: 1 } } );
+		await new Promise( ( res ) => setImmediate( res ) );
+		await expect( controller.getRefreshResult( task.id, { user: 'A', n: 1 } ) )
+			.resolves.toBeNull();
+
+		controller.finishers.get( task.id )();
+		await waitForSaves();
+
+		await expect( controller.getRefreshResult( task.id, { user: 'A', n: 1 } ) )
+			.resolves.toBe( 'result' );
+		await expect( controller.getRefreshResult( task.id, { user: 'B', n: 1 } ) )
+			.resolves.toBeNull();
+		await expect( controller.getRefreshResult( task.id, { user: 'A', n: 2 } ) )
+			.resolves.toBeNull();
+	} );
+
+} );
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AsyncTask } from '../../../src/routes/abstract/AsyncTask';
+import TaskDeduplicator from '../../../src/routes/abstract/TaskDeduplicator';
+
+describe( 'TaskDeduplicator', () => {
+
+	describe( 'key', () => {
+
+		it( 'ignores the order of object keys and set-like arrays', () => {
+			expect( TaskDeduplicator.key( { a: 1, b: [ 'y', 'x', 'x' ] } ) )
+				.toBe( TaskDeduplicator.key( { b: [ 'x', 'y' ], a: 1 } ) );
+		} );
+
+		it( 'ignores missing options', () => {
+			expect( TaskDeduplicator.key( { a: 1, b: null, c: undefined } ) )
+				.toBe( TaskDeduplicator.key( { a: 1 } ) );
+		} );
+
+		it( 'tells apart different options', () => {
+			expect( TaskDeduplicator.key( { a: 1 } ) )
+				.not.toBe( TaskDeduplicator.key( { a: '1' } ) );
+			expect( TaskDeduplicator.key( { re: /a/i } ) )
+				.not.toBe( TaskDeduplicator.key( { re: /a/ } ) );
+		} );
+
+	} );
+
+	describe( 'resolve', () => {
+
+		let deduplicator: TaskDeduplicator<string>;
+		let started: AsyncTask<string>[];
+		const start = () => {
+			const task = new AsyncTask<string>();
+			started.push( task );
+			return task;
+		};
+
+		beforeEach( () => {
+			deduplicator = new TaskDeduplicator<string>();
+			started = [];
+		} );
+
+		afterEach( () => {
+			jest.useRealTimers();
+		} );
+
+		it( 'joins running tasks with the same options', () => {
+			const first = deduplicator.resolve( { user: 'A' }, start );
+			const second = deduplicator.resolve( { user: 'A' }, start );
+
+			expect( first.created ).toBe( true );
+			expect( second ).toEqual( { task: first.task, created: false, stale: false } );
+			expect( started ).toHaveLength( 1 );
+		} );
+
+		it( 'starts separate tasks for different options', () => {
+			const first = deduplicator.resolve( { user: 'A' }, start );
+			const second = deduplicator.resolve( { user: 'B' }, start );
+
+			expect( second.created ).toBe( true );
+			expect( second.task ).not.toBe( first.task );
+		} );
+
+		it( 'starts a new task when bypassing the cache', () => {
+			const first = deduplicator.resolve( { user: 'A' }, start );
+			const bypassed = deduplicator.resolve( { user: 'A' }, start, true );
+			const joined = deduplicator.resolve( { user: 'A' }, start );
+
+			expect( bypassed.created ).toBe( true );
+			expect( bypassed.task ).not.toBe( first.task );
+			expect( joined.task ).toBe( bypassed.task );
+		} );
+
+		it( 'does not reuse cancelled or failed tasks', () => {
+			const cancelled = deduplicator.resolve( { user: 'A' }, start ).task;
+			cancelled.cancel();
+			const afterCancel = deduplicator.resolve( { user: 'A' }, start );
+			expect( afterCancel.created ).toBe( true );
+
+			afterCancel.task.fail( new Error( 'failed' ) );
+			const afterFail = deduplicator.resolve( { user: 'A' }, start );
+			expect( afterFail.created ).toBe( true );
+			expect( started ).toHaveLength( 3 );
+		} );
+
+		it( 'measures freshness from when the task finished', () => {
+			jest.useFakeTimers();
+			const task = deduplicator.resolve( { user: 'A' }, start ).task;
+			jest.advanceTimersByTime( ( TaskDeduplicator.MAX_AGE - 100 ) * 1e3 );
+			task.finish( 'result' );
+			jest.advanceTimersByTime( 200e3 );
+
+			expect( deduplicator.resolve( { user: 'A' }, start ) )
+				.toEqual( { task, created: false, stale: false } );
+			expect( started ).toHaveLength( 1 );
+		} );
+
+		it( 'serves stale results while refreshing them in the background', () => {
+			jest.useFakeTimers();
+			const task = deduplicator.resolve( { user: 'A' }, start ).task;
+			task.finish( 'old' );
+			jest.advanceTimersByTime( ( TaskDeduplicator.MAX_AGE + 1 ) * 1e3 );
+
+			expect( deduplicator.resolve( { user: 'A' }, start ) )
+				.toEqual( { task, created: false, stale: true } );
+			// Only one refresh runs at a time.
+			deduplicator.resolve( { user: 'A' }, start );
+			expect( started ).toHaveLength( 2 );
+
+			started[ 1 ].finish( 'new' );
+			expect( deduplicator.resolve( { user: 'A' }, start ) )
+				.toEqual( { task: started[ 1 ], created: false, stale: false } );
+		} );
+
+	} );
+
+	describe( 'onceStopped', () => {
+
+		it( 'calls the listener once and removes the other listeners', () => {
+			const task = new AsyncTask<string>();
+			const listener = jest.fn();
+			TaskDeduplicator.onceStopped( task, listener );
+
+			task.finish( 'result' );
+			task.emit( 'cancel' );
+			task.emit( 'fail', new Error( 'failed' ) );
+
+			expect( listener.mock.calls ).toEqual( [ [ true ] ] );
+			expect( task.listenerCount( 'finish' ) ).toBe( 0 );
+			expect( task.listenerCount( 'cancel' ) ).toBe( 0 );
+			expect( task.listenerCount( 'fail' ) ).toBe( 0 );
+		} );
+
+		it( 'reports cancelled tasks as not finished', () => {
+			const task = new AsyncTask<string>();
+			const listener = jest.fn();
+			TaskDeduplicator.onceStopped( task, listener );
+
+			task.cancel();
+
+			expect( listener.mock.calls ).toEqual( [ [ false ] ] );
+			expect( task.listenerCount( 'finish' ) ).toBe( 0 );
+		} );
+
+	} );
+
+} );
@@ -0,0 +1,115 @@
+import { describe, expect, it } from '@jest/globals';
+import { AsyncTask } from '../../../src/routes/abstract/AsyncTask';
+import TaskScheduler from '../../../src/routes/abstract/TaskScheduler';
+
+/**
+ * A task run which only finishes once told to.
+ */
+interface ControlledRun {
+	task: AsyncTask<void>;
+	started: boolean;
+	finish: () => Promise<void>;
+}
+
+/**
+ * Schedule a task which runs until its `finish` function is called.
+ *
+ * @param scheduler The scheduler to use
+ * @param wiki The wiki of the task
+ * @param client The client of the task
+ * @return The controlled run
+ */
+function schedule( scheduler: TaskScheduler, wiki?: string, client?: string ): ControlledRun {
+	const task = new AsyncTask<void>();
+	let resolve: () => void;
+	const done = new Promise<void>( ( res ) => {
+		resolve = res;
+	} );
+	const run: ControlledRun = {
+		task,
+		started: false,
+		finish: async () => {
+			resolve();
+			// Let the scheduler start the next tasks.
+			await done;
+			await new Promise( ( res ) => setImmediate( res ) );
+		}
+	};
+	scheduler.schedule( task, { wiki, client }, () => {
+		run.started = true;
+		return done;
+	} );
+	return run;
+}
+
+describe( 'TaskScheduler', () => {
+
+	it( 'starts tasks up to the global limit', async () => {
+		const scheduler = new TaskScheduler( 2, 10, 10 );
+		const runs = [ 1, 2, 3 ].map( () => schedule( scheduler ) );
+
+		expect( runs.map( ( r ) => r.started ) ).toEqual( [ true, true, false ] );
+		expect( runs.map( ( r ) => r.task.state ) ).toEqual( [ 'running', 'running', 'queued' ] );
+		expect( scheduler.queued ).toBe( 1 );
+
+		await runs[ 0 ].finish();
+		expect( runs[ 2 ].started ).toBe( true );
+		expect( scheduler.queued ).toBe( 0 );
+	} );
+
+	it( 'starts tasks in the order they were scheduled', async () => {
+		const scheduler = new TaskScheduler( 1, 10, 10 );
+		const runs = [ 1, 2, 3 ].map( () => schedule( scheduler ) );
+
+		expect( runs.map( ( r ) => scheduler.getQueuePosition( r.task ) ) )
+			.toEqual( [ null, 1, 2 ] );
+
+		await runs[ 0 ].finish();
+		expect( runs.map( ( r ) => r.started ) ).toEqual( [ true, true, false ] );
+		expect( scheduler.getQueuePosition( runs[ 2 ].task ) ).toBe( 1 );
+	} );
+
+	it( 'limits tasks per wiki and per client without blocking other tasks', async () => {
+		const scheduler = new TaskScheduler( 10, 1, 1 );
+		const enwiki = schedule( scheduler, 'enwiki', 'a' );
+		const enwikiBlocked = schedule( scheduler, 'enwiki', 'b' );
+		const clientBlocked = schedule( scheduler, 'dewiki', 'a' );
+		const other = schedule( scheduler, 'frwiki', 'c' );
+
+		expect( enwiki.started ).toBe( true );
+		expect( enwikiBlocked.started ).toBe( false );
+		expect( clientBlocked.started ).toBe( false );
+		expect( other.started ).toBe( true );
+
+		await enwiki.finish();
+		expect( enwikiBlocked.started ).toBe( true );
+		expect( clientBlocked.started ).toBe( true );
+	} );
+
+	it( 'removes tasks cancelled while queued', async () => {
+		const scheduler = new TaskScheduler( 1, 10, 10 );
+		const first = schedule( scheduler );
+		const cancelled = schedule( scheduler );
+		const last = schedule( scheduler );
+
+		cancelled.task.cancel();
+		expect( scheduler.getQueuePosition( cancelled.task ) ).toBeNull();
+		expect( scheduler.getQueuePosition( last.task ) ).toBe( 1 );
+
+		await first.finish();
+		expect( cancelled.started ).toBe( false );
+		expect( last.started ).toBe( true );
+	} );
+
+	it( 'keeps going after a task fails', async () => {
+		const scheduler = new TaskScheduler( 1, 10, 10 );
+		const failing = new AsyncTask<void>();
+		scheduler.schedule( failing, {}, () => Promise.reject( new Error( 'failed' ) ) );
+		const next = schedule( scheduler );
+
+		await new Promise( ( res ) => setImmediate( res ) );
+		expect( next.started ).toBe( true );
+		await next.finish();
+	} );
+
+} );
@@ -0,0 +1,38 @@
+import { describe, expect, it } from '@jest/globals';
+import { AuthController } from '../../../../src/routes/v1/auth/AuthController';
+
+describe( 'AuthController', () => {
+
+	describe( 'isLocalPath', () => {
+
+		it( 'allows paths on Dispatch', () => {
+			expect( AuthController.isLocalPath( '/' ) ).toBe( true );
+			expect( AuthController.isLocalPath( '/v1/user/Example?a=b#c' ) ).toBe( true );
+		} );
+
+		it( 'rejects absolute URLs', () => {
+			expect( AuthController.isLocalPath( 'https://example.com/' ) ).toBe( false );
+			expect( AuthController.isLocalPath( 'data:text/html,example' ) ).toBe( false );
+		} );
+
+		it( 'rejects relative paths', () => {
+			expect( AuthController.isLocalPath( 'v1/user' ) ).toBe( false );
+			expect( AuthController.isLocalPath( '' ) ).toBe( false );
+		} );
+
+		it( 'rejects protocol-relative URLs', () => {
+			expect( AuthController.isLocalPath( '//example.com/' ) ).toBe( false );
+			expect( AuthController.isLocalPath( '/\\example.com/' ) ).toBe( false );
+			expect( AuthController.isLocalPath( '/\\/example.com/' ) ).toBe( false );
+		} );
+
+		it( 'rejects paths with characters which browsers drop', () => {
+			expect( AuthController.isLocalPath( '/\t/example.com/' ) ).toBe( false );
+			expect( AuthController.isLocalPath( '/\n/example.com/' ) ).toBe( false );
+			expect( AuthController.isLocalPath( '/ /example.com/' ) ).toBe( false );
+			expect( AuthController.isLocalPath( '/\x00/example.com/' ) ).toBe( false );
+		} );
+
+	} );
+
+} );
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import CircuitBreaker from '../../src/util/CircuitBreaker';
+
+describe( 'CircuitBreaker', () => {
+
+	const succeed = () => Promise.resolve( 'service' );
+	const fail = () => Promise.reject( new Error( 'failed' ) );
+	const fallback = () => Promise.resolve( 'fallback' );
+
+	let breaker: CircuitBreaker;
+
+	beforeEach( () => {
+		jest.useFakeTimers();
+		breaker = new CircuitBreaker( 'test', {
+			windowSize: 4,
+			minimumCalls: 4,
+			failureThreshold: 0.5,
+			slowCallTime: 1000,
+			resetTimeout: 10e3
+		} );
+	} );
+
+	afterEach( () => {
+		jest.useRealTimers();
+	} );
+
+	it( 'uses the service while it works', async () => {
+		for ( let i = 0; i < 5; i++ ) {
+			await expect( breaker.run( succeed, fallback ) ).resolves.toBe( 'service' );
+		}
+		expect( breaker.stats ).toEqual( { state: 'closed', failureRate: 0, calls: 4 } );
+	} );
+
+	it( 'uses the fallback for failed calls', async () => {
+		const onError = jest.fn( fallback );
+
+		await expect( breaker.run( fail, onError ) ).resolves.toBe( 'fallback' );
+		expect( onError ).toHaveBeenCalledWith( expect.any( Error ) );
+		expect( breaker.state ).toBe( 'closed' );
+	} );
+
+	it( 'opens once enough calls failed', async () => {
+		await breaker.run( succeed, fallback );
+		await breaker.run( succeed, fallback );
+		await breaker.run( fail, fallback );
+		expect( breaker.state ).toBe( 'closed' );
+		await breaker.run( fail, fallback );
+		expect( breaker.state ).toBe( 'open' );
+
+		const service = jest.fn( succeed );
+		await expect( breaker.run( service, fallback ) ).resolves.toBe( 'fallback' );
+		expect( service ).not.toHaveBeenCalled();
+	} );
+
+	it( 'counts slow calls as failed', async () => {
+		const slow = () => {
+			jest.advanceTimersByTime( 1000 );
+			return succeed();
+		};
+		for ( let i = 0; i < 4; i++ ) {
+			await expect( breaker.run( slow, fallback ) ).resolves.toBe( 'service' );
+		}
+		expect( breaker.state ).toBe( 'open' );
+	} );
+
+	it( 'closes again once a trial call succeeds', async () => {
+		for ( let i = 0; i < 4; i++ ) {
+			await breaker.run( fail, fallback );
+		}
+		jest.advanceTimersByTime( 10e3 );
+		expect( breaker.state ).toBe( 'half-open' );
+
+		let finishTrial: ( value: string ) => void;
+		const trial = breaker.run(
+			() => new Promise<string>( ( res ) => {
+				finishTrial = res;
+			} ),
+			fallback
+		);
+		// Only one trial call goes through at a time.
+		const service = jest.fn( succeed );
+		await expect( breaker.run( service, fallback ) ).resolves.toBe( 'fallback' );
+		expect( service ).not.toHaveBeenCalled();
+
+		finishTrial( 'service' );
+		await expect( trial ).resolves.toBe( 'service' );
+		expect( breaker.state ).toBe( 'closed' );
+	} );
+
+	it( 'opens again if the trial call fails', async () => {
+		for ( let i = 0; i < 4; i++ ) {
+			await breaker.run( fail, fallback );
+		}
+		jest.advanceTimersByTime( 10e3 );
+
+		await expect( breaker.run( fail, fallback ) ).resolves.toBe( 'fallback' );
+		expect( breaker.state ).toBe( 'open' );
+		jest.advanceTimersByTime( 5e3 );
+		expect( breaker.state ).toBe( 'open' );
+	} );
+
+} );
@@ -0,0 +1,278 @@
+// Event data uses the field names of the Wikimedia event schemas.
+/* eslint-disable camelcase */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ExpandedRevision } from '../../src/models/Revision';
+import RevisionStore from '../../src/util/RevisionStore';
+import RevisionEventSource, {
+	RevisionEvents,
+	RevisionEventStream
+} from '../../src/util/RevisionEventSource';
+import RevisionStorePersistence, {
+	PersistedRevisionStore
+} from '../../src/util/RevisionStorePersistence';
+
+/**
+ * An event source which only sends the events it is told to.
+ */
+class FakeEventSource extends RevisionEventSource {
+
+	open = true;
+	lastEventId: string;
+
+	/**
+	 * @inheritDoc
+	 */
+	start( lastEventId?: string ): void {
+		this.lastEventId = lastEventId;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	stop(): void {
+		this.open = false;
+	}
+
+	/**
+	 * Send an event.
+	 *
+	 * @param stream The stream of the event
+	 * @param data The event data
+	 * @param id The ID of the event
+	 */
+	send<T extends RevisionEventStream>( stream: T, data: unknown, id = '[]' ): void {
+		this.emitEvent( stream, data as RevisionEvents[T], id );
+	}
+
+}
+
+/**
+ * Keeps saved stores in memory.
+ */
+class FakePersistence extends RevisionStorePersistence {
+
+	readonly saved = new Map<string, PersistedRevisionStore>();
+
+	/**
+	 * @inheritDoc
+	 */
+	async load( store: string ): Promise<PersistedRevisionStore | null> {
+		return this.saved.get( store ) ?? null;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	async save( store: string, contents: PersistedRevisionStore ): Promise<void> {
+		this.saved.set( store, contents );
+	}
+
+}
+
+/**
+ * Make a revision for testing.
+ *
+ * @param revid The revision ID
+ * @param pageid The page ID of the revision
+ * @return The revision
+ */
+function revision( revid: number, pageid: number = 1 ): ExpandedRevision {
+	return {
+		revid,
+		parentid: revid - 1,
+		user: 'Example',
+		timestamp: '2023-01-01T00:00:00.000Z',
+		comment: 'Summary',
+		tags: [],
+		page: { pageid, title: 'Example', ns: 0 }
+	} as ExpandedRevision;
+}
+
+describe( 'RevisionStore', () => {
+
+	let source: FakeEventSource;
+	let store: RevisionStore;
+
+	beforeEach( () => {
+		jest.useFakeTimers();
+		source = new FakeEventSource();
+		store = new RevisionStore( false, false, {
+			name: 'test',
+			maxSize: 3,
+			maxAge: 60e3,
+			eventSource: source
+		} );
+	} );
+
+	afterEach( () => {
+		jest.useRealTimers();
+	} );
+
+	it( 'keeps revisions of different wikis apart', () => {
+		store.set( 'enwiki', 1, revision( 1 ) );
+
+		expect( store.get( 'enwiki', 1 ) ).toEqual( revision( 1 ) );
+		expect( store.get( 'dewiki', 1 ) ).toBeUndefined();
+	} );
+
+	it( 'evicts the least recently used revisions once full', () => {
+		store.set( 'enwiki', 1, revision( 1 ) );
+		store.set( 'enwiki', 2, revision( 2 ) );
+		store.set( 'enwiki', 3, revision( 3 ) );
+		store.get( 'enwiki', 1 );
+		store.set( 'enwiki', 4, revision( 4 ) );
+
+		expect( store.has( 'enwiki', 1 ) ).toBe( true );
+		expect( store.has( 'enwiki', 2 ) ).toBe( false );
+		expect( store.size ).toBe( 3 );
+		expect( store.stats.evictions ).toBe( 1 );
+	} );
+
+	it( 'expires revisions after the maximum age', () => {
+		store.set( 'enwiki', 1, revision( 1 ) );
+		jest.advanceTimersByTime( 59e3 );
+		expect( store.get( 'enwiki', 1 ) ).toBeDefined();
+		jest.advanceTimersByTime( 1e3 );
+
+		expect( store.get( 'enwiki', 1 ) ).toBeUndefined();
+		expect( store.stats ).toMatchObject( { hits: 1, misses: 1, expirations: 1, size: 0 } );
+	} );
+
+	it( 'does not add revisions while the stream is closed', () => {
+		source.open = false;
+		store.set( 'enwiki', 1, revision( 1 ) );
+
+		expect( store.has( 'enwiki', 1 ) ).toBe( false );
+	} );
+
+	it( 'drops cached data when a revision is replaced', () => {
+		store.set( 'enwiki', 1, revision( 1 ) );
+		store.setAddedText( 'enwiki', 1, { text: 'Added' } as any );
+		store.set( 'enwiki', 1, revision( 1 ) );
+
+		expect( store.getAddedText( 'enwiki', 1 ) ).toBeUndefined();
+	} );
+
+	describe( 'stream', () => {
+
+		beforeEach( () => {
+			store.startStream();
+		} );
+
+		it( 'drops revisions of deleted pages', () => {
+			store.set( 'enwiki', 1, revision( 1, 10 ) );
+			store.set( 'enwiki', 2, revision( 2, 20 ) );
+			source.send( 'mediawiki.page-delete', {
+				database: 'enwiki',
+				page_id: 10,
+				meta: { dt: new Date().toISOString() }
+			} );
+
+			expect( store.has( 'enwiki', 1 ) ).toBe( false );
+			expect( store.has( 'enwiki', 2 ) ).toBe( true );
+		} );
+
+		it( 'hides data of revisions whose visibility changed', () => {
+			store.set( 'enwiki', 1, revision( 1 ) );
+			source.send( 'mediawiki.revision-visibility-change', {
+				database: 'enwiki',
+				rev_id: 1,
+				visibility: { text: true, user: true, comment: false },
+				meta: { dt: new Date().toISOString() }
+			} );
+
+			expect( store.get( 'enwiki', 1 ) ).toMatchObject( { comment: '', user: 'Example' } );
+		} );
+
+		it( 'drops revisions whose visibility changed from privileged stores', () => {
+			const privileged = new RevisionStore( true, true, { eventSource: source } );
+			privileged.set( 'enwiki', 1, revision( 1 ) );
+			source.send( 'mediawiki.revision-visibility-change', {
+				database: 'enwiki',
+				rev_id: 1,
+				visibility: { text: true, user: true, comment: false },
+				meta: { dt: new Date().toISOString() }
+			} );
+
+			expect( privileged.has( 'enwiki', 1 ) ).toBe( false );
+		} );
+
+		it( 'drops revisions which were reverted', () => {
+			store.set( 'enwiki', 1, revision( 1 ) );
+			source.send( 'mediawiki.revision-tags-change', {
+				database: 'enwiki',
+				rev_id: 1,
+				tags: [ 'mw-reverted' ],
+				meta: { dt: new Date().toISOString() }
+			} );
+
+			expect( store.has( 'enwiki', 1 ) ).toBe( false );
+		} );
+
+	} );
+
+	describe( 'persistence', () => {
+
+		it( 'saves and loads unexpired revisions', async () => {
+			const persistence = new FakePersistence();
+			await store.persist( persistence );
+			store.startStream();
+			store.set( 'enwiki', 1, revision( 1 ) );
+			source.send( 'mediawiki.page-delete', {
+				database: 'enwiki',
+				page_id: 99,
+				meta: { dt: new Date().toISOString() }
+			}, 'event-1' );
+			await store.save();
+
+			const restored = new RevisionStore( false, false, {
+				name: 'test',
+				eventSource: new FakeEventSource()
+			} );
+			await restored.persist( persistence );
+			restored.startStream();
+
+			expect( restored.get( 'enwiki', 1 ) ).toEqual( revision( 1 ) );
+			expect( ( restored.source as FakeEventSource ).lastEventId ).toBe( 'event-1' );
+		} );
+
+		it( 'discards saved revisions if the stream cannot be resumed', async () => {
+			const persistence = new FakePersistence();
+			await persistence.save( 'test', {
+				revisions: [ {
+					wiki: 'enwiki',
+					revid: 1,
+					revision: revision( 1 ),
+					expireTime: Date.now() + 60e3
+				} ],
+				lastEventId: 'event-1',
+				lastEventTime: Date.now() - RevisionStore.RESUME_WINDOW
+			} );
+			await store.persist( persistence );
+			store.startStream();
+
+			expect( store.has( 'enwiki', 1 ) ).toBe( false );
+			expect( source.lastEventId ).toBeUndefined();
+		} );
+
+		it( 'does not load expired revisions', async () => {
+			const persistence = new FakePersistence();
+			await persistence.save( 'test', {
+				revisions: [ {
+					wiki: 'enwiki',
+					revid: 1,
+					revision: revision( 1 ),
+					expireTime: Date.now() - 1
+				} ],
+				lastEventId: 'event-1',
+				lastEventTime: Date.now()
+			} );
+			await store.persist( persistence );
+
+			expect( store.size ).toBe( 0 );
+		} );
+
+	} );
+
+} );
@@ -0,0 +1,38 @@
+import { describe, expect, it } from '@jest/globals';
+import diffAddedText from '../../../src/util/func/diffAddedText';
+
+describe( 'diffAddedText', () => {
+
+	it( 'returns nothing for unchanged text', () => {
+		expect( diffAddedText( 'One.\n\nTwo.', 'One.\n\nTwo.' ) ).toBe( '' );
+	} );
+
+	it( 'returns new paragraphs whole', () => {
+		expect( diffAddedText( 'One.\n\nTwo.', 'One.\n\nNew paragraph.\n\nTwo.' ) )
+			.toBe( 'New paragraph.' );
+	} );
+
+	it( 'returns only the added words of changed paragraphs', () => {
+		expect( diffAddedText(
+			'The quick fox jumps over the dog.',
+			'The quick brown fox jumps over the very lazy dog.'
+		) ).toBe( 'brown\nvery lazy' );
+	} );
+
+	it( 'ignores removed text', () => {
+		expect( diffAddedText( 'One.\n\nTwo.\n\nThree.', 'One.\n\nThree.' ) ).toBe( '' );
+		expect( diffAddedText( 'A long sentence here.', 'A sentence.' ) ).toBe( 'sentence.' );
+	} );
+
+	it( 'pairs changed paragraphs in order', () => {
+		expect( diffAddedText(
+			'Intro.\n\nFirst old.\n\nSecond old.\n\nOutro.',
+			'Intro.\n\nFirst new.\n\nSecond new.\n\nOutro.'
+		) ).toBe( 'new.\n\nnew.' );
+	} );
+
+	it( 'treats all text as added if there was none before', () => {
+		expect( diffAddedText( '', 'One.\n\nTwo.' ) ).toBe( 'One.\n\nTwo.' );
+	} );
+
+} );
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import settlesBefore from '../../../src/util/func/settlesBefore';
+
+describe( 'settlesBefore', () => {
+
+	beforeEach( () => {
+		jest.useFakeTimers();
+	} );
+
+	afterEach( () => {
+		jest.useRealTimers();
+	} );
+
+	it( 'resolves to true if the promise settles before the deadline', async () => {
+		await expect( settlesBefore( Promise.resolve(), Date.now() + 1000 ) )
+			.resolves.toBe( true );
+		await expect( settlesBefore( Promise.reject( new Error() ), Date.now() + 1000 ) )
+			.resolves.toBe( true );
+	} );
+
+	it( 'resolves to false once the deadline passes', async () => {
+		const result = settlesBefore( new Promise( () => { /* ignored */ } ), Date.now() + 1000 );
+		jest.advanceTimersByTime( 1000 );
+
+		await expect( result ).resolves.toBe( false );
+	} );
+
+	it( 'resolves to false right away if the deadline has passed', async () => {
+		const result = settlesBefore( new Promise( () => { /* ignored */ } ), Date.now() - 1 );
+		jest.advanceTimersByTime( 0 );
+
+		await expect( result ).resolves.toBe( false );
+	} );
+
+	it( 'waits for as long as it takes without a deadline', async () => {
+		let resolve: () => void;
+		const result = settlesBefore( new Promise<void>( ( res ) => {
+			resolve = res;
+		} ), null );
+		jest.advanceTimersByTime( 3600e3 );
+		resolve();
+
+		await expect( result ).resolves.toBe( true );
+		expect( jest.getTimerCount() ).toBe( 0 );
+	} );
+
+} );
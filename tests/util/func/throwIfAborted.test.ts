@@ -0,0 +1,22 @@
+import { describe, expect, it } from '@jest/globals';
+import throwIfAborted from '../../../src/util/func/throwIfAborted';
+
+describe( 'throwIfAborted', () => {
+
+	it( 'does nothing without a signal', () => {
+		expect( () => throwIfAborted() ).not.toThrow();
+	} );
+
+	it( 'does nothing if the signal has not aborted', () => {
+		expect( () => throwIfAborted( new AbortController().signal ) ).not.toThrow();
+	} );
+
+	it( 'throws an AbortError if the signal has aborted', () => {
+		const controller = new AbortController();
+		controller.abort();
+
+		expect( () => throwIfAborted( controller.signal ) )
+			.toThrow( expect.objectContaining( { name: 'AbortError' } ) as unknown as Error );
+	} );
+
+} );